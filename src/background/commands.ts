@@ -0,0 +1,73 @@
+// src/background/commands.ts
+
+/**
+ * Keyboard shortcut commands (manifest `commands`)
+ * Each command edits a settings object in place and returns the history
+ * source label for the write, or null when it doesn't apply (e.g. toggling
+ * the site of a tab without one). The listener in index.ts does the I/O.
+ */
+
+import type { Settings } from "../types/settings";
+import { MODES, SETTING_RANGES } from "../utils/defaults";
+import { effectiveSettingsFor } from "../utils/effective-settings";
+import { siteKeyFromUrl } from "../utils/site-rules";
+
+export const COMMANDS = {
+  toggleGlobal: "toggle-global",
+  toggleSite: "toggle-site",
+  cycleMode: "cycle-mode",
+  brightnessUp: "brightness-up",
+  brightnessDown: "brightness-down",
+  contrastUp: "contrast-up",
+  contrastDown: "contrast-down"
+} as const;
+
+export type CommandName = (typeof COMMANDS)[keyof typeof COMMANDS];
+
+/** Percentage points per brightness/contrast nudge */
+export const NUDGE_STEP = 5;
+
+/**
+ * Flip the page's site on or off, starting from what the page shows now (which
+ * may come from a wildcard or path rule); shared with the context menu
+ */
+export function toggleSite(s: Settings, url: string): string | null {
+  const origin = siteKeyFromUrl(url);
+  if (!origin) return null;
+  const current = effectiveSettingsFor(url, s).use.enabled;
+  s.perSite[origin] ||= {};
+  s.perSite[origin].enabled = !current;
+  return `toggle ${origin}`;
+}
+
+function nudge(s: Settings, key: "brightness" | "contrast", delta: number): string | null {
+  const { min, max } = SETTING_RANGES[key];
+  const next = Math.min(max, Math.max(min, s[key] + delta));
+  if (next === s[key]) return null;
+  s[key] = next;
+  return `${key} ${delta > 0 ? "up" : "down"}`;
+}
+
+/** Apply `command` to `s` for the active tab's `url`; returns the change description or null */
+export function applyCommand(command: string, s: Settings, url?: string): string | null {
+  switch (command) {
+    case COMMANDS.toggleGlobal:
+      s.enabled = !s.enabled;
+      return s.enabled ? "turned on" : "turned off";
+    case COMMANDS.toggleSite:
+      return url ? toggleSite(s, url) : null;
+    case COMMANDS.cycleMode:
+      s.mode = MODES[(MODES.indexOf(s.mode) + 1) % MODES.length];
+      return `${s.mode} algorithm`;
+    case COMMANDS.brightnessUp:
+      return nudge(s, "brightness", NUDGE_STEP);
+    case COMMANDS.brightnessDown:
+      return nudge(s, "brightness", -NUDGE_STEP);
+    case COMMANDS.contrastUp:
+      return nudge(s, "contrast", NUDGE_STEP);
+    case COMMANDS.contrastDown:
+      return nudge(s, "contrast", -NUDGE_STEP);
+    default:
+      return null;
+  }
+}
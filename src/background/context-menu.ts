@@ -0,0 +1,194 @@
+// src/background/context-menu.ts
+
+/**
+ * The "UltraDark" context menu (page and toolbar button)
+ * Items edit the rule for the page's site; their check and radio marks are
+ * refreshed from the tab's effective settings each time the menu opens. Like
+ * commands.ts, a click edits a settings object in place and returns the
+ * history source label, or null when the item doesn't apply to the page.
+ */
+
+import type { Mode, Settings } from "../types/settings";
+import { MODES } from "../utils/defaults";
+import { effectiveSettingsFor } from "../utils/effective-settings";
+import { escapeGlob, siteKeyFromUrl } from "../utils/site-rules";
+import { SNOOZE_DURATIONS } from "../utils/snooze";
+import { toggleSite } from "./commands";
+
+export const MENU = {
+  root: "udr-root",
+  toggleSite: "udr-toggle-site",
+  excludeSite: "udr-exclude-site",
+  excludePath: "udr-exclude-path",
+  excludeElement: "udr-exclude-element",
+  forceDark: "udr-force-dark",
+  mode: "udr-mode",
+  modeDefault: "udr-mode-default",
+  snooze: "udr-snooze"
+} as const;
+
+const MODE_LABELS: Record<Mode, string> = {
+  "photon-inverter": "Photon Inverter",
+  "dom-walker": "DOM Walker",
+  "chroma-semantic": "Chroma-Semantic"
+};
+
+/** Contexts of a right-click on the page itself; "Exclude this element" only makes sense there */
+const PAGE_CONTEXTS = ["page", "link", "image", "video", "audio", "selection", "editable"];
+const ALL_CONTEXTS = [...PAGE_CONTEXTS, "browser_action"];
+
+/** Rebuild the whole menu (menus don't outlive the background page) */
+export async function createContextMenus(): Promise<void> {
+  await browser.contextMenus.removeAll();
+  const item = (props: Record<string, unknown>) =>
+    browser.contextMenus.create({ contexts: ALL_CONTEXTS, parentId: MENU.root, ...props });
+
+  browser.contextMenus.create({ id: MENU.root, title: "UltraDark", contexts: ALL_CONTEXTS });
+  item({ id: MENU.toggleSite, type: "checkbox", title: "Enabled on this site" });
+  item({ id: MENU.forceDark, type: "checkbox", title: "Force dark even if site is dark" });
+  item({ id: MENU.mode, title: "Algorithm for this site" });
+  for (const mode of MODES) {
+    item({ id: `${MENU.mode}:${mode}`, parentId: MENU.mode, type: "radio", title: MODE_LABELS[mode] });
+  }
+  item({ id: `${MENU.mode}-sep`, parentId: MENU.mode, type: "separator" });
+  item({ id: MENU.modeDefault, parentId: MENU.mode, title: "Use global algorithm" });
+
+  item({ id: "udr-exclude-sep", type: "separator" });
+  item({ id: MENU.excludeSite, type: "checkbox", title: "Exclude this site" });
+  item({ id: MENU.excludePath, type: "checkbox", title: "Exclude this path and below" });
+  item({ id: MENU.excludeElement, title: "Exclude this element", contexts: PAGE_CONTEXTS });
+
+  item({ id: "udr-snooze-menu-sep", type: "separator" });
+  item({ id: MENU.snooze, title: "Pause" });
+  const snoozeScopes = [["site", "This site"], ["global", "Everywhere"]] as const;
+  snoozeScopes.forEach(([scope, scopeLabel], i) => {
+    if (i) item({ id: "udr-snooze-sep", parentId: MENU.snooze, type: "separator" });
+    for (const { id, label } of SNOOZE_DURATIONS) {
+      item({ id: `${MENU.snooze}:${scope}:${id}`, parentId: MENU.snooze, title: `${scopeLabel} ${label}` });
+    }
+  });
+}
+
+/**
+ * The perSite key for this page's path, or null on a site's root page
+ * Path rules are prefixes, so the rule also covers the pages below the path;
+ * a `*` in the path is escaped so it doesn't turn the rule into a glob.
+ */
+export function pagePathKey(url: string): string | null {
+  const origin = siteKeyFromUrl(url);
+  if (!origin) return null;
+  const { pathname } = new URL(url);
+  return pathname === "/" ? null : `${origin}${escapeGlob(pathname)}`;
+}
+
+export interface MenuState {
+  /** False on pages without a site (about:, file: ...), where every item is disabled */
+  available: boolean;
+  enabled: boolean;
+  forceDark: boolean;
+  mode: Mode;
+  /** The site's own rule picks the algorithm, so "Use global algorithm" applies */
+  siteMode: boolean;
+  siteExcluded: boolean;
+  pathExcluded: boolean;
+  hasPath: boolean;
+}
+
+/** What the menu should show for `url` */
+export function menuState(s: Settings, url: string): MenuState {
+  const origin = siteKeyFromUrl(url);
+  const pathKey = pagePathKey(url);
+  const { use, site } = effectiveSettingsFor(url, s);
+  return {
+    available: origin !== null,
+    enabled: use.enabled,
+    forceDark: site.forceDarkMode === true,
+    mode: use.mode,
+    siteMode: origin !== null && s.perSite[origin]?.override?.mode !== undefined,
+    siteExcluded: site.exclude === true,
+    pathExcluded: pathKey !== null && s.perSite[pathKey]?.exclude === true,
+    hasPath: pathKey !== null
+  };
+}
+
+/** Update check/radio marks for the tab the menu opened on, then redraw the open menu */
+export async function refreshContextMenus(s: Settings, url: string): Promise<void> {
+  const state = menuState(s, url);
+  const enabled = state.available;
+  const updates: [string, Record<string, unknown>][] = [
+    [MENU.toggleSite, { enabled, checked: state.enabled }],
+    [MENU.forceDark, { enabled, checked: state.forceDark }],
+    [MENU.mode, { enabled }],
+    ...MODES.map((mode): [string, Record<string, unknown>] => [`${MENU.mode}:${mode}`, { checked: mode === state.mode }]),
+    [MENU.modeDefault, { enabled: state.siteMode }],
+    [MENU.excludeSite, { enabled, checked: state.siteExcluded }],
+    [MENU.excludePath, { enabled, visible: state.hasPath, checked: state.pathExcluded }],
+    [MENU.excludeElement, { enabled }],
+    [MENU.snooze, { enabled }]
+  ];
+  await Promise.all(updates.map(([id, props]) => browser.contextMenus.update(id, props)));
+  await browser.contextMenus.refresh();
+}
+
+/** Drop a rule that no longer says anything */
+function pruneRule(s: Settings, key: string): void {
+  if (s.perSite[key] && !Object.keys(s.perSite[key]).length) delete s.perSite[key];
+}
+
+/**
+ * Apply a click on `menuItemId` to `s` for the page at `url`
+ * `checked` is the item's new state for checkbox items. Returns the change
+ * description, or null for items handled elsewhere or pages without a site.
+ */
+export function applyMenuClick(menuItemId: string, s: Settings, url: string, checked?: boolean): string | null {
+  const origin = siteKeyFromUrl(url);
+  if (!origin) return null;
+
+  if (menuItemId === MENU.toggleSite) return toggleSite(s, url);
+
+  if (menuItemId === MENU.forceDark || menuItemId === MENU.excludeSite) {
+    const flag = menuItemId === MENU.forceDark ? "forceDarkMode" : "exclude";
+    const value = checked ?? !(s.perSite[origin]?.[flag] ?? false);
+    s.perSite[origin] ||= {};
+    s.perSite[origin][flag] = value;
+    return `${flag === "exclude" ? "exclude" : "force dark"} ${origin} ${value ? "on" : "off"}`;
+  }
+
+  if (menuItemId === MENU.excludePath) {
+    const key = pagePathKey(url);
+    if (!key) return null;
+    const value = checked ?? !(s.perSite[key]?.exclude ?? false);
+    s.perSite[key] ||= {};
+    if (value) s.perSite[key].exclude = true;
+    else delete s.perSite[key].exclude;
+    pruneRule(s, key);
+    return `exclude ${key} ${value ? "on" : "off"}`;
+  }
+
+  if (menuItemId === MENU.modeDefault) {
+    const override = s.perSite[origin]?.override;
+    if (override?.mode === undefined) return null;
+    delete override.mode;
+    if (!Object.keys(override).length) delete s.perSite[origin].override;
+    pruneRule(s, origin);
+    return `${origin} uses global algorithm`;
+  }
+
+  const [menu, mode] = menuItemId.split(":");
+  if (menu === MENU.mode && (MODES as readonly string[]).includes(mode)) {
+    s.perSite[origin] ||= {};
+    s.perSite[origin].override = { ...s.perSite[origin].override, mode: mode as Mode };
+    return `${origin} ${mode} algorithm`;
+  }
+  return null;
+}
+
+/** Leave the element matching `selector` unthemed on the site of `url` */
+export function excludeElement(s: Settings, url: string, selector: string): string | null {
+  const origin = siteKeyFromUrl(url);
+  if (!origin) return null;
+  s.perSite[origin] ||= {};
+  const selectors = s.perSite[origin].excludeSelectors ?? [];
+  if (!selectors.includes(selector)) s.perSite[origin].excludeSelectors = [...selectors, selector];
+  return `exclude element ${selector} on ${origin}`;
+}
@@ -1,78 +1,143 @@
 // src/background/index.ts
 /// <reference types="web-ext-types" />
-import { getSettings, setSettings, updateSettings, originFromUrl } from "../utils/storage";
-import { applyScheduleTick } from "./scheduler";
-import { debugSync, initDebugCache, info } from "../utils/logger";
+import { getSettings, setSettings, runMigrations } from "../utils/storage";
+import { runSchedule, SCHEDULE_ALARM } from "./scheduler";
+import { applyCommand, COMMANDS } from "./commands";
+import { applyMenuClick, createContextMenus, excludeElement, MENU, refreshContextMenus } from "./context-menu";
+import { clearTabStatus, showTabError } from "./tab-registry";
+import { runSnoozeAlarm, SNOOZE_ALARM } from "./snooze-alarm";
+import { dropTabOverride } from "./tab-overrides";
+import { backgroundHandlers } from "./message-handlers";
+import { siteKeyFromUrl } from "../utils/site-rules";
+import { SettingsValidationError } from "../utils/validation";
+import { onSettingsChanged } from "../utils/settings-events";
+import { holdScheduleOverride } from "../utils/schedule-override";
+import { onSnoozesChanged, snooze, snoozeUntil, type SnoozeDuration } from "../utils/snooze";
+import { listen, sendToTab } from "../utils/messages";
+import { debugSync, initDebugCache, info, error, warn } from "../utils/logger";
 
 (async () => {
   await initDebugCache();
   debugSync('Background script initialized');
 })();
 
-browser.runtime.onInstalled.addListener(() => {
+// Snoozes outlive the background page; expire or re-arm them on every start
+runSnoozeAlarm();
+onSnoozesChanged(() => runSnoozeAlarm());
+
+// Likewise apply the schedule and plan its next transition on every start (browser start, re-enable, reload)
+runSchedule();
+
+// Context menus don't outlive the background page either
+createContextMenus();
+
+browser.runtime.onInstalled.addListener(async () => {
   info('Extension installed/updated');
-  // Initialize context menus
-  browser.contextMenus.create({
-    id: "udr-toggle-site",
-    title: "UltraDark: Toggle on this site",
-    contexts: ["page", "browser_action"]
-  });
-  browser.contextMenus.create({
-    id: "udr-exclude-site",
-    title: "UltraDark: Exclude this site",
-    contexts: ["page", "browser_action"]
-  });
+  // Upgrade stored settings once per install/update rather than on every read
+  try {
+    const migrated = await runMigrations();
+    debugSync('Settings migration ran:', migrated);
+  } catch (err) {
+    error('Settings migration failed:', err);
+  }
 
-  // Alarm to check schedule every minute
-  browser.alarms.create("udr-schedule", { periodInMinutes: 1 });
+  // Replaces the per-minute alarm older versions created under the same name
+  await runSchedule();
 });
 
 browser.alarms.onAlarm.addListener((a) => {
-  if (a.name === "udr-schedule") {
+  if (a.name === SCHEDULE_ALARM) {
     debugSync('Running schedule check');
-    applyScheduleTick();
+    runSchedule();
+  } else if (a.name === SNOOZE_ALARM) {
+    debugSync('Snooze ended');
+    runSnoozeAlarm();
   }
 });
 
-browser.contextMenus.onClicked.addListener(async (info, tab) => {
-  if (!tab?.url) return;
-  const origin = originFromUrl(tab.url);
-  debugSync('Context menu clicked:', info.menuItemId, 'for', origin);
-  const s = await getSettings();
-  s.perSite[origin] ||= {};
-  if (info.menuItemId === "udr-toggle-site") {
-    const current = s.perSite[origin].enabled ?? s.enabled;
-    s.perSite[origin].enabled = !current;
-  } else if (info.menuItemId === "udr-exclude-site") {
-    s.perSite[origin].exclude = !(s.perSite[origin].exclude ?? false);
+// Re-plan when the schedule itself is edited; the scheduler's own on/off writes don't move it
+onSettingsChanged((next, prev) => {
+  if (JSON.stringify(next.schedule) !== JSON.stringify(prev?.schedule)) {
+    debugSync('Schedule changed, re-planning');
+    runSchedule();
   }
-  await setSettings(s);
-  if (tab.id) browser.tabs.sendMessage(tab.id, { type: "udr:settings-updated" }).catch(() => {});
 });
 
-browser.runtime.onMessage.addListener(async (msg, sender) => {
-  if (msg?.type === "udr:get-settings") {
-    return getSettings();
+// Timers don't advance while the machine sleeps; catch up on wake/unlock
+browser.idle.onStateChanged.addListener((state) => {
+  if (state === "active") {
+    debugSync('System active again, re-planning schedule');
+    runSchedule();
   }
-  if (msg?.type === "udr:set-settings") {
-    debugSync('Settings updated via message');
-    await setSettings(msg.payload);
-    // Inform active tab to re-apply
-    if (sender?.tab?.id) {
-      browser.tabs.sendMessage(sender.tab.id, { type: "udr:settings-updated" }).catch(() => {});
-    }
+});
+
+// Check and radio marks follow the tab the menu is opened on
+browser.contextMenus.onShown.addListener(async (_info, tab) => {
+  if (!tab?.url) return;
+  await refreshContextMenus(await getSettings(), tab.url);
+});
+
+browser.contextMenus.onClicked.addListener(async (info, tab) => {
+  // "udr-snooze:<site|global>:<duration>"
+  const [menu, scope, duration] = String(info.menuItemId).split(":");
+  if (menu === MENU.snooze) {
+    const target = scope === "global" ? "global" : tab?.url ? siteKeyFromUrl(tab.url) : null;
+    if (!target) return;
+    debugSync('Snoozing', target, 'for', duration);
+    await snooze(target, snoozeUntil(duration as SnoozeDuration));
+    return;
   }
-  if (msg?.type === "udr:update-settings") {
-    debugSync('Settings patched via message');
-    await updateSettings(msg.payload);
-    if (sender?.tab?.id) {
-      browser.tabs.sendMessage(sender.tab.id, { type: "udr:settings-updated" }).catch(() => {});
-    }
+
+  if (!tab?.url || tab.id === undefined) return;
+  debugSync('Context menu clicked:', info.menuItemId, 'for', tab.url);
+  // Only the content script in the clicked frame can name the element
+  const selector: string | null = info.menuItemId === MENU.excludeElement
+    ? await sendToTab(tab.id, "udr:element-selector", { targetElementId: info.targetElementId }, { frameId: info.frameId ?? 0 })
+      .catch(() => null)
+    : null;
+  if (info.menuItemId === MENU.excludeElement && !selector) {
+    await showTabError(tab.id, "Couldn't build a selector for this element");
+    return;
   }
-  if (msg?.type === "udr:debug-mode-changed") {
-    // Update debug cache in background script when debug mode changes
-    const { updateDebugCache } = await import("../utils/logger");
-    updateDebugCache(msg.enabled);
-    debugSync('Debug mode changed to:', msg.enabled);
+  const s = await getSettings();
+  const change = info.menuItemId === MENU.excludeElement
+    ? selector && excludeElement(s, info.frameUrl ?? tab.url, selector)
+    : applyMenuClick(String(info.menuItemId), s, tab.url, info.checked);
+  if (!change) return;
+  try {
+    // Tabs pick the change up through storage.onChanged
+    await setSettings(s, `Context menu: ${change}`);
+  } catch (err) {
+    if (!(err instanceof SettingsValidationError)) throw err;
+    warn('Rejected context menu change', change, err.issues);
+    await showTabError(tab.id, `Couldn't save "${change}": ${err.issues.map((i) => i.message).join("; ")}`);
   }
 });
+
+browser.commands.onCommand.addListener(async (command) => {
+  const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+  const s = await getSettings();
+  const change = applyCommand(command, s, tab?.url);
+  debugSync('Command:', command, change ?? '(no change)');
+  if (!change) return;
+  await setSettings(s, `Shortcut: ${change}`);
+  // Like the popup switch, flipping against the schedule holds until its next transition
+  if (command === COMMANDS.toggleGlobal && s.schedule.enabled) await holdScheduleOverride(s.schedule, s.enabled);
+});
+
+// A new page load starts without a status until its content script reports one
+browser.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.status === "loading") clearTabStatus(tabId);
+  // "This tab only" overrides belong to the site they were made on
+  if (changeInfo.url) dropTabOverride(tabId, changeInfo.url);
+  // A URL change without a load is client-side routing, which content scripts can't observe directly
+  if (changeInfo.url && changeInfo.status !== "loading") {
+    sendToTab(tabId, "udr:location-changed").catch(() => {});
+  }
+});
+browser.tabs.onRemoved.addListener((tabId) => {
+  clearTabStatus(tabId, true);
+  dropTabOverride(tabId);
+});
+
+listen("background", backgroundHandlers);
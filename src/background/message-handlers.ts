@@ -0,0 +1,80 @@
+// src/background/message-handlers.ts
+
+/**
+ * Handlers for messages addressed to the background (see utils/messages.ts)
+ * Settings writes reply with validation issues rather than throwing, so the
+ * sender can show them.
+ */
+
+import type { Settings } from "../types/settings";
+import type { MessageHandlers, SaveResult } from "../utils/messages";
+import { getSettings, setSettings, updateSettings } from "../utils/storage";
+import { SettingsValidationError } from "../utils/validation";
+import { debugSync, updateDebugCache, warn } from "../utils/logger";
+import { frameContextFor } from "../utils/frame-context";
+import { sendToTab } from "../utils/messages";
+import { getTabStatus, setTabStatus } from "./tab-registry";
+import { getTabOverride, setTabOverride } from "./tab-overrides";
+
+/** Run a settings write, turning validation failures into an `{ ok: false }` reply */
+async function save(type: string, write: () => Promise<unknown>): Promise<SaveResult> {
+  try {
+    await write();
+    return { ok: true };
+  } catch (err) {
+    if (err instanceof SettingsValidationError) {
+      warn('Rejected invalid settings from', type, err.issues);
+      return { ok: false, errors: err.issues };
+    }
+    throw err;
+  }
+}
+
+export const backgroundHandlers: MessageHandlers = {
+  "udr:get-settings": () => getSettings(),
+
+  "udr:set-settings": (msg) => {
+    debugSync('Settings updated via message');
+    return save(msg.type, () => setSettings(msg.payload as Settings, "Extension message"));
+  },
+
+  "udr:update-settings": (msg) => {
+    debugSync('Settings patched via message');
+    return save(msg.type, () => updateSettings(msg.payload as Partial<Settings>, "Extension message"));
+  },
+
+  // Only top frames report; their child frames follow the new decision
+  "udr:tab-status": async (msg, sender) => {
+    const tab = sender.tab;
+    if (tab?.id === undefined) return;
+    await setTabStatus(tab.id, msg.status);
+    const context = tab.url ? frameContextFor(tab.url, msg.status) : null;
+    if (context) sendToTab(tab.id, "udr:frame-context", { context }).catch(() => {});
+  },
+
+  "udr:get-frame-context": (_msg, sender) => {
+    const tab = sender.tab;
+    return tab?.id === undefined || !tab.url ? null : frameContextFor(tab.url, getTabStatus(tab.id));
+  },
+
+  // From a content script (its own tab) or the popup (the tab it was opened on)
+  "udr:get-tab-override": (msg, sender) => {
+    const tabId = sender.tab?.id ?? msg.tabId;
+    return tabId === undefined ? {} : getTabOverride(tabId, sender.tab?.url);
+  },
+
+  "udr:set-tab-override": async (msg) => {
+    const tab = await browser.tabs.get(msg.tabId);
+    try {
+      return { ok: true, override: await setTabOverride(msg.tabId, tab.url, msg.override) };
+    } catch (err) {
+      if (err instanceof SettingsValidationError) return { ok: false, errors: err.issues };
+      throw err;
+    }
+  },
+
+  "udr:debug-mode-changed": (msg) => {
+    updateDebugCache(msg.enabled);
+    debugSync('Debug mode changed to:', msg.enabled);
+  }
+};
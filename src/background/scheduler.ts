@@ -1,33 +1,52 @@
 import { getSettings, setSettings } from "../utils/storage";
+import { nextScheduleCheck, rampProgress, scheduleActive } from "../utils/schedule";
+import { setRampProgress } from "../utils/ramp";
+import { getScheduleOverride } from "../utils/schedule-override";
+import { debugSync } from "../utils/logger";
 
-/** Returns true if now is within [start, end) for local time; handles overnight windows. */
-export function withinWindow(start: string, end: string, now = new Date()): boolean {
-  const [sh, sm] = start.split(":").map(Number);
-  const [eh, em] = end.split(":").map(Number);
-  const s = new Date(now), e = new Date(now);
-  s.setHours(sh, sm || 0, 0, 0);
-  e.setHours(eh, em || 0, 0, 0);
+/** One-shot alarm set for the schedule's next transition */
+export const SCHEDULE_ALARM = "udr-schedule";
 
-  if (e <= s) {
-    // overnight window, e.g., 21:00 -> 07:00
-    return now >= s || now < e;
-  }
-  return now >= s && now < e;
-}
-
-export async function applyScheduleTick() {
+export async function applyScheduleTick(now = new Date()) {
   const s = await getSettings();
-  if (!s.schedule?.enabled) return;
-  const inWindow = withinWindow(s.schedule.start, s.schedule.end);
+  if (!s.schedule?.enabled) {
+    await setRampProgress(null);
+    return;
+  }
+  // A manual flip from the popup holds until the next schedule transition
+  const override = await getScheduleOverride(now.getTime());
+  if (override) {
+    debugSync('Schedule overridden until', override.until === null ? 'resumed' : new Date(override.until).toString());
+    await setRampProgress(null);
+    return;
+  }
+  // Ramp first, so tabs switched on at dusk start from the day values
+  await setRampProgress(rampProgress(s.schedule, now));
+  const inWindow = scheduleActive(s.schedule, now);
   // Only auto-toggle the global 'enabled' bit when schedule is enabled.
   const nextEnabled = inWindow;
   if (nextEnabled !== s.enabled) {
     s.enabled = nextEnabled;
-    await setSettings(s);
-    // inform all tabs to refresh
-    const tabs = await browser.tabs.query({});
-    for (const t of tabs) {
-      if (t.id) browser.tabs.sendMessage(t.id, { type: "udr:settings-updated" }).catch(() => {});
-    }
+    // Tabs pick the change up through storage.onChanged
+    await setSettings(s, nextEnabled ? "Scheduler: night started" : "Scheduler: night ended");
   }
 }
+
+/** (Re)arm SCHEDULE_ALARM for the next transition, or drop it if nothing is scheduled */
+export async function planScheduleAlarm(now = new Date()) {
+  const s = await getSettings();
+  await browser.alarms.clear(SCHEDULE_ALARM);
+  const when = s.schedule ? nextScheduleCheck(s.schedule, now) : null;
+  if (when === null) {
+    debugSync('No schedule alarm needed');
+    return;
+  }
+  browser.alarms.create(SCHEDULE_ALARM, { when });
+  debugSync('Next schedule check at', new Date(when).toString());
+}
+
+/** Apply the schedule for the current moment, then plan the next wake-up */
+export async function runSchedule() {
+  await applyScheduleTick();
+  await planScheduleAlarm();
+}
@@ -0,0 +1,22 @@
+// src/background/snooze-alarm.ts
+
+/**
+ * One-shot alarm that ends the next snooze
+ * Firefox doesn't keep alarms across browser restarts, so the alarm is
+ * re-planned from storage on startup as well as whenever snoozes change.
+ */
+
+import { expireSnoozes, nextSnoozeEnd } from "../utils/snooze";
+import { debugSync } from "../utils/logger";
+
+export const SNOOZE_ALARM = "udr-snooze";
+
+/** Expire finished snoozes (tabs resume through storage.onChanged), then arm the alarm for the next one */
+export async function runSnoozeAlarm(now = Date.now()) {
+  const snoozes = await expireSnoozes(now);
+  await browser.alarms.clear(SNOOZE_ALARM);
+  const when = nextSnoozeEnd(snoozes);
+  if (when === null) return;
+  browser.alarms.create(SNOOZE_ALARM, { when });
+  debugSync('Next snooze ends at', new Date(when).toString());
+}
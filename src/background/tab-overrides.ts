@@ -0,0 +1,61 @@
+// src/background/tab-overrides.ts
+
+/**
+ * Session-only per-tab overrides ("This tab only" in the popup)
+ * Held in background memory keyed by tab id, layered on top of
+ * effectiveSettingsFor() by the tab's content script, and never written to
+ * storage. An override belongs to the site it was made on: it is dropped when
+ * the tab closes or navigates to another site.
+ */
+
+import type { Settings } from "../types/settings";
+import { THEME_KEYS } from "../utils/effective-settings";
+import { siteKeyFromUrl } from "../utils/site-rules";
+import { validateSettingsPatch } from "../utils/validation";
+import { sendToTab } from "../utils/messages";
+
+interface TabOverride {
+  /** siteKeyFromUrl() of the page the override was made on */
+  site: string | null;
+  override: Partial<Settings>;
+}
+
+const overrides = new Map<number, TabOverride>();
+
+/** The override for `tabId`, or {} if it has none or `url` is on another site */
+export function getTabOverride(tabId: number, url?: string): Partial<Settings> {
+  const entry = overrides.get(tabId);
+  if (!entry) return {};
+  if (url !== undefined && siteKeyFromUrl(url) !== entry.site) {
+    overrides.delete(tabId);
+    return {};
+  }
+  return entry.override;
+}
+
+/**
+ * Replace the override for the tab showing `url` and push it to that tab
+ * Only theme fields are kept; invalid values throw SettingsValidationError.
+ */
+export async function setTabOverride(tabId: number, url: string | undefined, input: unknown): Promise<Partial<Settings>> {
+  const patch = validateSettingsPatch(input);
+  const override: Partial<Settings> = {};
+  for (const key of THEME_KEYS) {
+    if (key in patch) Object.assign(override, { [key]: patch[key] });
+  }
+  if (Object.keys(override).length) {
+    overrides.set(tabId, { site: url ? siteKeyFromUrl(url) : null, override });
+  } else {
+    overrides.delete(tabId);
+  }
+  await sendToTab(tabId, "udr:tab-override", { override }).catch(() => {
+    // No content script on this page (about:, addons.mozilla.org, ...)
+  });
+  return override;
+}
+
+/** Forget the override of a closed tab, or of one that left its site */
+export function dropTabOverride(tabId: number, url?: string): void {
+  if (url === undefined) overrides.delete(tabId);
+  else getTabOverride(tabId, url);
+}
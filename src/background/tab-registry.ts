@@ -0,0 +1,54 @@
+// src/background/tab-registry.ts
+
+/**
+ * Per-tab theming status, as last reported by each tab's content script
+ * Kept in memory only: a status describes a page load, so nothing is worth
+ * persisting, and tabs report again whenever they tick.
+ */
+
+import { statusBadge, type TabStatus } from "../utils/tab-status";
+
+const statuses = new Map<number, TabStatus>();
+
+const ICON_ON = { 16: "src/assets/icons/icon16.png", 48: "src/assets/icons/icon48.png" };
+const ICON_OFF = { 16: "src/assets/icons/icon-off16.png", 48: "src/assets/icons/icon-off48.png" };
+const BADGE_COLOR = "#4b5563";
+const ERROR_BADGE_COLOR = "#b91c1c";
+
+export function getTabStatus(tabId: number): TabStatus | undefined {
+  return statuses.get(tabId);
+}
+
+/** Record `status` for `tabId` and show it on the toolbar button */
+export async function setTabStatus(tabId: number, status: TabStatus): Promise<void> {
+  statuses.set(tabId, status);
+  const { text, title } = statusBadge(status);
+  await Promise.all([
+    browser.browserAction.setBadgeText({ tabId, text }),
+    browser.browserAction.setBadgeBackgroundColor({ tabId, color: BADGE_COLOR }),
+    browser.browserAction.setTitle({ tabId, title }),
+    browser.browserAction.setIcon({ tabId, path: status.themed ? ICON_ON : ICON_OFF })
+  ]);
+}
+
+/**
+ * Show a failed action on the toolbar button of `tabId`
+ * Stays until the tab next reports its status (the next settings change or page load).
+ */
+export async function showTabError(tabId: number, message: string): Promise<void> {
+  await Promise.all([
+    browser.browserAction.setBadgeText({ tabId, text: "ERR" }),
+    browser.browserAction.setBadgeBackgroundColor({ tabId, color: ERROR_BADGE_COLOR }),
+    browser.browserAction.setTitle({ tabId, title: `UltraDark — ${message}` })
+  ]);
+}
+
+/** Forget `tabId`; also resets its button unless the tab is gone */
+export async function clearTabStatus(tabId: number, closed = false): Promise<void> {
+  if (!statuses.delete(tabId) || closed) return;
+  await Promise.all([
+    browser.browserAction.setBadgeText({ tabId, text: "" }),
+    browser.browserAction.setTitle({ tabId, title: null }),
+    browser.browserAction.setIcon({ tabId, path: ICON_ON })
+  ]);
+}
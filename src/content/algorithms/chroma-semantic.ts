@@ -10,6 +10,7 @@
 
 import type { Settings } from "../../types/settings";
 import { debugSync } from "../../utils/logger";
+import { isExcludedElement } from "../element-exclusions";
 import { applyPhotonInverter } from "./photon-inverter";
 
 const processedElements = new Set<HTMLElement>();
@@ -218,7 +219,7 @@ function processCSSVariables(): number {
  * Apply semantic styling to an element
  */
 function applySemanticStyle(element: HTMLElement, role: string, depth: number): void {
-  if (processedElements.has(element)) return;
+  if (processedElements.has(element) || isExcludedElement(element)) return;
 
   const computed = getComputedStyle(element);
   
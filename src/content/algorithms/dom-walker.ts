@@ -10,6 +10,7 @@
 
 import type { Settings } from "../../types/settings";
 import { debugSync } from "../../utils/logger";
+import { isExcludedElement } from "../element-exclusions";
 
 const processedElements = new Set<HTMLElement>();
 let mutationObserver: MutationObserver | null = null;
@@ -162,6 +163,7 @@ function processBatch(elements: Element[], startIndex: number, batchSize: number
     // Skip if already processed
     if (!(element instanceof HTMLElement)) continue;
     if (processedElements.has(element)) continue;
+    if (isExcludedElement(element)) continue;
     
     const computed = getComputedStyle(element);
     
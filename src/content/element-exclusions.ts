@@ -0,0 +1,80 @@
+// src/content/element-exclusions.ts
+
+/**
+ * Elements the user excluded from theming ("Exclude this element" in the context menu)
+ * Matching elements get the `data-udr-skip` attribute: the injected CSS undoes
+ * the page inversion on them, and the DOM-based algorithms leave their subtree alone.
+ */
+
+import { MAX_SELECTOR_LENGTH } from "../utils/validation";
+
+export const SKIP_ATTR = "data-udr-skip";
+
+/** Ids that are safe to use in a selector as-is (no escaping needed) */
+const PLAIN_ID_RE = /^[A-Za-z][\w-]*$/;
+
+/** Hand-written attributes that usually survive a site rebuild, tried when an ancestor has no usable id */
+const ANCHOR_ATTRS = ["data-testid", "name", "aria-label"];
+
+/** Attribute values that are safe inside a quoted selector */
+const PLAIN_VALUE_RE = /^[\w -]{1,60}$/;
+
+/** `#id` or `tag[attr="value"]` if it picks out `node` alone in its document */
+function uniqueAnchor(node: Element): string | null {
+  const doc = node.ownerDocument;
+  if (PLAIN_ID_RE.test(node.id) && doc.querySelectorAll(`#${node.id}`).length === 1) return `#${node.id}`;
+  for (const attr of ANCHOR_ATTRS) {
+    const value = node.getAttribute(attr);
+    if (value === null || !PLAIN_VALUE_RE.test(value)) continue;
+    const selector = `${node.localName}[${attr}="${value}"]`;
+    if (doc.querySelectorAll(selector).length === 1) return selector;
+  }
+  return null;
+}
+
+/**
+ * A CSS selector that finds `el` again on the next visit
+ * The path of `tag:nth-of-type()` steps from the nearest ancestor with a unique
+ * id or anchor attribute (or from body); class names are left out as many sites
+ * generate them per build. Null when the path would be longer than
+ * MAX_SELECTOR_LENGTH, which settings validation would reject.
+ */
+export function selectorFor(el: Element): string | null {
+  const doc = el.ownerDocument;
+  if (el === doc.body || el === doc.documentElement) return el.localName;
+
+  const steps: string[] = [];
+  let node: Element | null = el;
+  let anchor: string | null = null;
+  while (node && node !== doc.body && node !== doc.documentElement) {
+    anchor = uniqueAnchor(node);
+    if (anchor) break;
+    const tag: string = node.localName;
+    const parent: Element | null = node.parentElement;
+    const siblings = parent ? Array.from(parent.children).filter((c) => c.localName === tag) : [];
+    steps.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag);
+    node = parent;
+  }
+  const selector = [anchor ?? node?.localName ?? "body", ...steps].join(" > ");
+  return selector.length <= MAX_SELECTOR_LENGTH ? selector : null;
+}
+
+/** Mark every element matching one of `selectors`; invalid selectors are ignored */
+export function markExcludedElements(selectors: readonly string[], root: ParentNode = document): void {
+  for (const selector of selectors) {
+    try {
+      root.querySelectorAll(selector).forEach((el) => el.setAttribute(SKIP_ATTR, ""));
+    } catch {
+      // Hand-edited or imported selector the browser can't parse
+    }
+  }
+}
+
+export function clearExcludedElements(root: ParentNode = document): void {
+  root.querySelectorAll(`[${SKIP_ATTR}]`).forEach((el) => el.removeAttribute(SKIP_ATTR));
+}
+
+/** True if `el` is, or is inside, an excluded element */
+export function isExcludedElement(el: Element): boolean {
+  return el.closest(`[${SKIP_ATTR}]`) !== null;
+}
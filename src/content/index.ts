@@ -4,53 +4,76 @@ import WorkerUrl from "./optimizer-worker?worker&url";
 import type { Settings } from "../types/settings";
 import { DATA_ATTR_APPLIED } from "../utils/defaults";
 import { getSettings } from "../utils/storage";
-import { urlExcluded } from "../utils/regex";
-import { isAlreadyDarkTheme } from "../utils/dark-detection";
+import { effectiveSettingsFor, sameEffectiveSettings, withTabOverride, type EffectiveSettings } from "../utils/effective-settings";
+import { onSettingsChanged } from "../utils/settings-events";
+import { applyRamp, getRampState, onRampChanged, type RampState } from "../utils/ramp";
+import { activeSnooze, getSnoozes, onSnoozesChanged, sameSnoozesFor } from "../utils/snooze";
+import { darkThemeVerdict, siteThemeSignature } from "../utils/dark-detection";
+import { getPaintDecision, rememberPaintDecision, themedPaint, type PaintDecision, type ThemedPaint } from "../utils/paint-cache";
+import { darkSiteStatus, settingsSkipStatus, type TabStatus } from "../utils/tab-status";
+import { excludeSelectorsFor, frameTreatment, sameFrameContext, type FrameContext } from "../utils/frame-context";
+import { listen, sendToBackground } from "../utils/messages";
 import { debugSync, initDebugCache, updateDebugCache } from "../utils/logger";
 import { applyPhotonInverter, removePhotonInverter } from "./algorithms/photon-inverter";
 import { applyDomWalker, resetDomWalker } from "./algorithms/dom-walker";
 import { applyChromaSemantic, resetChromaSemantic } from "./algorithms/chroma-semantic";
-import { buildCss, ensureStyleTag } from "./style-template";
+import { buildCss, buildInvertedParentCss, buildPreInjectCss, ensureStyleTag } from "./style-template";
+import { clearExcludedElements, markExcludedElements, selectorFor } from "./element-exclusions";
+import { watchRoute } from "./route-watcher";
+import { watchSiteTheme } from "./theme-watcher";
+import { FRAME_TAG_ID, PREINJECT_TAG_ID, withoutOwnStyles } from "./own-styles";
 
 let worker: Worker | null = null;
+const isTopFrame = window === window.top;
 let applied = false;
 let preInjected = false;
 let preInjectTag: HTMLStyleElement | null = null;
 let currentMode: Settings["mode"] | null = null;
+/** Session-only "This tab only" override held by the background for this tab */
+let tabOverride: Partial<Settings> = {};
+const tabOverrideReady = sendToBackground("udr:get-tab-override")
+  .then((override) => {
+    tabOverride = override ?? {};
+  })
+  .catch(() => {
+    // Background not ready yet; an override can only be made after it is
+  });
+/** Schedule ramp in progress, if any, and the un-ramped settings last applied */
+let ramp: RampState | null = null;
+let lastApplied: Settings | null = null;
+/** What the applied theme was resolved from, so re-ticks that change nothing leave it alone */
+let lastEff: EffectiveSettings | null = null;
+/** CSS selectors of elements the site's rules leave unthemed */
+let excludeSelectors: string[] = [];
+/** In a child frame: how the top frame is themed, which this frame follows */
+let frameContext: FrameContext | null = null;
+const frameContextReady = isTopFrame
+  ? Promise.resolve()
+  : sendToBackground("udr:get-frame-context")
+      .then((context) => {
+        frameContext = context;
+      })
+      .catch(() => {
+        // Background not ready; the top frame's status report brings the context
+      });
+let frameTag: HTMLStyleElement | null = null;
+
+/** The page whose rules apply: a child frame follows its top-level page */
+function pageUrl(): string {
+  return frameContext?.url ?? location.href;
+}
 
 (async () => {
   await initDebugCache();
   debugSync('content script started to load');
 })();
 
-async function effectiveSettingsFor(url: string, base: Settings): Promise<{ use: Settings; excluded: boolean }> {
-  const origin = new URL(url).origin;
-  const per = base.perSite[origin] || {};
-  const excluded = per.exclude === true || urlExcluded(url, base.excludeRegex);
-
-  const merged: Settings = {
-    ...base,
-    ...(per.override || {})
-  };
-
-  if (typeof per.enabled === "boolean") merged.enabled = per.enabled;
-
-  return { use: merged, excluded };
-}
-
-const PRE_INJECT_CSS = `
-html,
-body {
-  background-color: #1a1a1a !important;
-  color: #e0e0e0 !important;
-}`;
-
-function ensurePreInjectCss() {
+function ensurePreInjectCss(paint: ThemedPaint) {
   if (!preInjectTag) {
     preInjectTag = document.createElement('style');
-    preInjectTag.id = 'udr-preinject';
-    preInjectTag.textContent = PRE_INJECT_CSS;
+    preInjectTag.id = PREINJECT_TAG_ID;
   }
+  preInjectTag.textContent = buildPreInjectCss(paint.background, paint.mode);
 
   if (!preInjectTag.isConnected) {
     // Prefer head but fall back to documentElement to run as early as possible
@@ -69,6 +92,23 @@ function removePreInjectCss() {
   preInjected = false;
 }
 
+// Paint what the last visit to this site ended with, without waiting for settings
+const firstPaintReady = !isTopFrame
+  ? Promise.resolve()
+  : getPaintDecision(location.href)
+      .then((cached) => {
+        if (cached?.themed) ensurePreInjectCss(cached);
+      })
+      .catch(() => {
+        // No cached decision; the first tick paints
+      });
+
+/** Keep this tick's decision for the next first paint (tab overrides are never persisted) */
+function rememberPaint(decision: PaintDecision) {
+  if (!isTopFrame || Object.keys(tabOverride).length) return;
+  rememberPaintDecision(location.href, decision).catch(() => {});
+}
+
 function hueRotateFromBlueShift(blueShift: number): number {
   return Math.round((blueShift / 100) * 180);
 }
@@ -138,6 +178,7 @@ function removeCss() {
   removePhotonInverter();
 
   document.documentElement.removeAttribute("udr-applied");
+  clearExcludedElements();
 
   // Clean up mode attribute
   document.documentElement.removeAttribute("data-udr-mode");
@@ -173,12 +214,21 @@ function removeCss() {
   debugSync('Dark theme removed successfully');
 }
 
+// Client-side navigation can land on a path with its own rules or a darker page
+const route = watchRoute((url, previous) => {
+  debugSync('Route changed from', previous, 'to', url);
+  tick();
+});
+
 function startObserverForSpa() {
   // If the page dynamically changes, we keep media fixes healthy.
   const ob = new MutationObserver(() => {
+    // Routers re-render on navigation, which also catches URL changes the background didn't relay
+    route.check();
     // Lightweight touch; heavy color analysis goes to worker
-    if (applied) {
-      // nothing extra: CSS handles media; optimizer tick handles contrast
+    if (applied || frameTag?.isConnected) {
+      // CSS handles media; optimizer tick handles contrast; excluded elements need marking
+      if (excludeSelectors.length) markExcludedElements(excludeSelectors);
     }
   });
   ob.observe(document.documentElement, { childList: true, subtree: true, attributes: false });
@@ -214,44 +264,189 @@ function startOptimizerIfEnabled(s: Settings) {
   worker.postMessage({ type: "analyze", samples });
 }
 
+/** Child frame under an inverted top page: work with its inversion instead of theming */
+function applyInvertedParentCss(dark: boolean, selectors: string[]) {
+  if (applied) removeCss();
+  else if (preInjected) removePreInjectCss();
+  if (!frameTag) {
+    frameTag = document.createElement("style");
+    frameTag.id = FRAME_TAG_ID;
+  }
+  frameTag.textContent = buildInvertedParentCss(dark);
+  if (!frameTag.isConnected) document.documentElement.appendChild(frameTag);
+  markExclusions(selectors);
+}
+
+/** Mark the elements `selectors` leave unthemed, replacing earlier marks */
+function markExclusions(selectors: string[]) {
+  excludeSelectors = selectors;
+  clearExcludedElements();
+  markExcludedElements(excludeSelectors);
+}
+
+const sameSelectors = (a: string[], b: string[]) => a.join("\n") === b.join("\n");
+
+/** Take everything this frame added off the page */
+function clearTheme() {
+  if (applied) removeCss();
+  else if (preInjected) removePreInjectCss();
+  frameTag?.remove();
+  clearExcludedElements();
+}
+
+/**
+ * Whether the site is dark on its own, measured with our styles lifted
+ * While the theme is applied only <html>/<body> are sampled: elements the DOM
+ * algorithms restyled inline can't be told apart from the site's own.
+ */
+function detectDarkSite() {
+  return withoutOwnStyles(() => darkThemeVerdict({ sampleDivs: !applied }), { inlineBackgrounds: hasInlineTheme() });
+}
+
+/** The applied algorithm writes inline colours, including on <html>/<body> */
+function hasInlineTheme() {
+  return applied && currentMode !== "photon-inverter";
+}
+
+/** Tell the background what this tick decided, for the toolbar badge */
+function reportStatus(status: TabStatus) {
+  if (!isTopFrame) return;
+  sendToBackground("udr:tab-status", { status }).catch(() => {
+    // Background not ready yet (e.g. during extension startup)
+  });
+}
+
 async function tick() {
+  await firstPaintReady;
+  await frameContextReady;
+  if (!isTopFrame && !frameContext?.themed) {
+    debugSync('Top frame is not themed, leaving this frame alone');
+    clearTheme();
+    return;
+  }
+  const url = pageUrl();
   const s = await getSettings();
-  const { use, excluded } = await effectiveSettingsFor(location.href, s);
-
-  const origin = new URL(location.href).origin;
+  await tabOverrideReady;
+  const eff = withTabOverride(effectiveSettingsFor(url, s), tabOverride);
+  const { use, excluded, site } = eff;
+  const selectors = excludeSelectorsFor(location.href, s);
 
   // Check if should skip due to exclusion
   if (!use.enabled || excluded) {
-    debugSync('Skipping - extension disabled or URL excluded:', location.href);
-    if (applied) removeCss();
-    else if (preInjected) removePreInjectCss();
+    debugSync('Skipping - extension disabled or URL excluded:', url);
+    clearTheme();
+    reportStatus(settingsSkipStatus(url, s, eff, tabOverride) ?? { themed: false, reason: "global-off" });
+    rememberPaint({ themed: false });
+    return;
+  }
+
+  const snoozed = activeSnooze(url, await getSnoozes());
+  if (snoozed) {
+    debugSync('Paused until', new Date(snoozed.until).toString());
+    clearTheme();
+    const until = new Date(snoozed.until).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+    reportStatus({ themed: false, reason: "snoozed", detail: `${snoozed.target === "global" ? "everywhere" : "this site"} until ${until}` });
     return;
   }
 
   // Check if site is already dark (unless forceDarkMode is set for this site)
-  const per = use.perSite[origin] || {};
-  const shouldDetectDark = use.detectDarkSites && !per.forceDarkMode;
-  
-  if (shouldDetectDark && isAlreadyDarkTheme()) {
+  const shouldDetectDark = use.detectDarkSites && !site.forceDarkMode;
+  const verdict = shouldDetectDark ? detectDarkSite() : null;
+
+  if (!isTopFrame) {
+    const treatment = frameTreatment(frameContext, verdict?.dark ?? false);
+    if (treatment === "reinvert-media" || treatment === "cancel-inversion") {
+      debugSync('Top frame inverts this frame:', treatment);
+      applyInvertedParentCss(treatment === "cancel-inversion", selectors);
+      return;
+    }
+    frameTag?.remove();
+  }
+
+  if (verdict?.dark) {
     debugSync('Site already uses dark theme, skipping');
-    if (applied) removeCss();
-    else if (preInjected) removePreInjectCss();
+    clearTheme();
+    reportStatus(darkSiteStatus(verdict));
+    rememberPaint({ themed: false });
+    return;
+  }
+
+  if (applied && lastEff && sameEffectiveSettings(lastEff, eff) && sameSelectors(excludeSelectors, selectors)) {
+    debugSync('Theme already applied with these settings');
+    reportStatus({ themed: true, reason: "themed", mode: use.mode });
     return;
   }
 
   debugSync('Applying dark theme with mode:', use.mode);
-  ensurePreInjectCss();
-  applyCss(use);
-  if (use.optimizerEnabled) {
-    startOptimizerIfEnabled(use);
+  ramp = await getRampState();
+  const themed = applyRamp(use, ramp);
+  const paint = themedPaint(themed);
+  ensurePreInjectCss(paint);
+  rememberPaint(paint);
+  markExclusions(selectors);
+  applyCss(themed);
+  lastApplied = use;
+  lastEff = eff;
+  reportStatus({ themed: true, reason: "themed", mode: use.mode });
+  if (themed.optimizerEnabled) {
+    startOptimizerIfEnabled(themed);
   }
 }
 
-browser.runtime.onMessage.addListener((msg) => {
-  if (msg?.type === "udr:settings-updated") {
+/** Ramp steps only move filter values, so rebuild the filter CSS and leave the algorithm alone */
+function applyRampStep(next: RampState | null) {
+  ramp = next;
+  if (!applied || !lastApplied) return;
+  const themed = applyRamp(lastApplied, ramp);
+  debugSync('Schedule ramp step:', ramp?.progress ?? 'done');
+  if (currentMode === "photon-inverter") applyPhotonInverter(themed);
+  else applyFilterCss(themed);
+}
+
+// Re-theme only when a settings change actually affects this page's URL
+onSettingsChanged((next, prev) => {
+  const resolve = (settings: Settings) => withTabOverride(effectiveSettingsFor(pageUrl(), settings), tabOverride);
+  const sameExclusions = !prev || sameSelectors(excludeSelectorsFor(location.href, prev), excludeSelectorsFor(location.href, next));
+  if (prev && sameEffectiveSettings(resolve(prev), resolve(next)) && sameExclusions) {
+    debugSync('Settings changed but not for this page, skipping tick');
+    return;
+  }
+  debugSync('Settings changed for this page, reapplying theme');
+  tick();
+});
+
+onRampChanged(applyRampStep);
+
+// Pausing or resuming only matters to pages the pause covers
+onSnoozesChanged((next, prev) => {
+  if (sameSnoozesFor(pageUrl(), next, prev)) return;
+  debugSync('Snooze changed for this page, reapplying theme');
+  tick();
+});
+
+listen("content", {
+  "udr:settings-updated": () => {
     debugSync('Settings updated, reapplying theme');
     tick();
-  } else if (msg?.type === "udr:debug-mode-changed") {
+  },
+  "udr:tab-override": (msg) => {
+    debugSync('Tab override changed:', msg.override);
+    tabOverride = msg.override;
+    tick();
+  },
+  // "Exclude this element": the background asks which element was right-clicked
+  "udr:element-selector": (msg) => {
+    const el: Element | null = browser.menus.getTargetElement(msg.targetElementId);
+    return el ? selectorFor(el) : null;
+  },
+  "udr:location-changed": () => route.check(),
+  "udr:frame-context": (msg) => {
+    if (isTopFrame || sameFrameContext(frameContext, msg.context)) return;
+    debugSync('Top frame decision changed:', msg.context);
+    frameContext = msg.context;
+    tick();
+  },
+  "udr:debug-mode-changed": (msg) => {
     // Update debug cache when debug mode changes
     updateDebugCache(msg.enabled);
   }
@@ -260,6 +455,14 @@ browser.runtime.onMessage.addListener((msg) => {
 (async function init() {
   await tick();
   startObserverForSpa();
+  // A site flipping its own dark theme after load needs the opposite decision
+  watchSiteTheme(
+    () => {
+      debugSync('Site theme changed, re-checking dark detection');
+      tick();
+    },
+    () => withoutOwnStyles(siteThemeSignature, { inlineBackgrounds: hasInlineTheme() })
+  );
 })();
 
 debugSync('content script loaded as module');
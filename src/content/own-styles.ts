@@ -0,0 +1,39 @@
+// src/content/own-styles.ts
+
+/**
+ * Reading the site's own colours while our theme is on the page
+ * For the duration of a synchronous read our style tags are disabled and the
+ * background the DOM algorithms set inline on <html>/<body> is lifted; both
+ * are back before the browser can paint, so the page never flickers.
+ */
+
+import { STYLE_TAG_ID } from "../utils/defaults";
+
+export const PREINJECT_TAG_ID = "udr-preinject";
+export const FRAME_TAG_ID = "udr-frame-style";
+const OWN_STYLE_IDS = [STYLE_TAG_ID, PREINJECT_TAG_ID, FRAME_TAG_ID];
+
+/**
+ * Run `read` as if the page weren't themed
+ * `inlineBackgrounds` lifts inline background colours on <html>/<body>; only
+ * pass it when an algorithm that writes them (DOM Walker, Chroma) is applied.
+ */
+export function withoutOwnStyles<T>(read: () => T, { inlineBackgrounds = false }: { inlineBackgrounds?: boolean } = {}): T {
+  const sheets = OWN_STYLE_IDS.map((id) => (document.getElementById(id) as HTMLStyleElement | null)?.sheet).filter(
+    (sheet): sheet is CSSStyleSheet => !!sheet && !sheet.disabled
+  );
+  const roots = inlineBackgrounds ? [document.documentElement, document.body].filter((el): el is HTMLElement => !!el) : [];
+  const saved = roots.map((el) => [el.style.getPropertyValue("background-color"), el.style.getPropertyPriority("background-color")]);
+
+  sheets.forEach((sheet) => (sheet.disabled = true));
+  roots.forEach((el) => el.style.removeProperty("background-color"));
+  try {
+    return read();
+  } finally {
+    sheets.forEach((sheet) => (sheet.disabled = false));
+    roots.forEach((el, i) => {
+      const [value, priority] = saved[i];
+      if (value) el.style.setProperty("background-color", value, priority);
+    });
+  }
+}
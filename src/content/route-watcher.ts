@@ -0,0 +1,55 @@
+// src/content/route-watcher.ts
+
+/**
+ * Client-side navigation in single-page apps
+ * A content script can't see the page's own history.pushState/replaceState
+ * calls (it only has an Xray view of `history`), so besides popstate and
+ * hashchange it relies on the background, which sees every URL change of the
+ * tab (tabs.onUpdated) and forwards it as `udr:location-changed`, and on DOM
+ * mutations as a fallback. All of them just call check(), which compares URLs.
+ */
+
+/** Wait this long after the URL changes so the app can render the new route first */
+export const ROUTE_SETTLE_MS = 150;
+
+export interface RouteWatcher {
+  /** Look for a URL change now (cheap; call as often as convenient) */
+  check(): void;
+  stop(): void;
+}
+
+/**
+ * Call `onChange` once per client-side navigation, after the route settles
+ * Navigations in quick succession (redirects, replaceState after pushState)
+ * collapse into one call with the first URL as `previous`.
+ */
+export function watchRoute(onChange: (url: string, previous: string) => void, settleMs = ROUTE_SETTLE_MS): RouteWatcher {
+  let current = location.href;
+  let previous: string | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const check = () => {
+    if (location.href === current) return;
+    previous ??= current;
+    current = location.href;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const from = previous!;
+      previous = null;
+      if (from !== current) onChange(current, from);
+    }, settleMs);
+  };
+
+  window.addEventListener("popstate", check);
+  window.addEventListener("hashchange", check);
+
+  return {
+    check,
+    stop() {
+      window.removeEventListener("popstate", check);
+      window.removeEventListener("hashchange", check);
+      if (timer) clearTimeout(timer);
+    }
+  };
+}
@@ -1,4 +1,5 @@
 // src/content/style-template.ts
+import type { Mode } from "../types/settings";
 import { STYLE_TAG_ID } from "../utils/defaults";
 
 export function ensureStyleTag(): HTMLStyleElement {
@@ -11,6 +12,39 @@ export function ensureStyleTag(): HTMLStyleElement {
   return tag;
 }
 
+/**
+ * Background painted from document_start until the theme is in place
+ * The photon inverter turns the page's own light background dark once its
+ * filter applies, so under it the pre-paint only holds until then.
+ */
+export function buildPreInjectCss(background: string, mode: Mode): string {
+  const html = mode === "photon-inverter" ? 'html:not([udr-applied="true"])' : "html";
+  return `
+${html},
+${html} body {
+  background-color: ${background} !important;
+  color: #e0e0e0 !important;
+}`;
+}
+
+/**
+ * CSS for a child frame drawn inside an inverted (photon) top page
+ * A dark frame inverts itself again so it shows in its own colours; a light
+ * one is already darkened by the parent and only puts its media back.
+ */
+export function buildInvertedParentCss(dark: boolean): string {
+  const reinvert = "filter: invert(1) hue-rotate(180deg) !important;";
+  return dark
+    ? `
+/* UltraDark Reader: cancel the parent page's inversion */
+html { ${reinvert} }`
+    : `
+/* UltraDark Reader: the parent page inverts this frame; re-invert media and excluded elements */
+img, video, canvas, svg, picture, [role="img"],
+[data-udr-skip]:not([data-udr-skip] *) { ${reinvert} }
+[data-udr-skip] :is(img, video, canvas, svg, picture, [role="img"]) { filter: none !important; }`;
+}
+
 /** Generates CSS for Static/Dynamic modes + AMOLED & image fixes using CSS variables. */
 export function buildCss(vars: {
   brightness: number; // %
@@ -30,7 +64,7 @@ export function buildCss(vars: {
   // AMOLED: force #000 backgrounds
   const amoledCss = amoled
     ? `
-html, body, body *:not(img):not(video):not(canvas):not(svg):not([data-udr-skip]) {
+html, body, body *:not(img):not(video):not(canvas):not(svg):not([data-udr-skip]):not([data-udr-skip] *) {
   background-color: #000 !important;
   background-image: none !important;
 }`
@@ -45,6 +79,14 @@ html[udr-applied="true"] svg,
 html[udr-applied="true"] picture,
 html[udr-applied="true"] [role="img"] {
   filter: ${mediaFilter} !important; /* re-invert media */
+}
+
+/* Excluded elements keep their own colours: undo the inversion once, at the outermost one */
+html[udr-applied="true"] [data-udr-skip]:not([data-udr-skip] *) {
+  filter: ${mediaFilter} !important;
+}
+html[udr-applied="true"] [data-udr-skip] :is(img, video, canvas, svg, picture, [role="img"]) {
+  filter: none !important;
 }`
     : "";
 
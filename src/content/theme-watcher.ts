@@ -0,0 +1,58 @@
+// src/content/theme-watcher.ts
+
+/**
+ * Sites that switch their own theme after load
+ * A toggle usually flips a class or data-theme on <html>/<body>, rewrites
+ * the color-scheme meta tag or swaps a stylesheet in <head>. Mutations there
+ * are collected for THEME_SETTLE_MS, then a signature (siteThemeSignature()
+ * by default) decides whether anything dark detection reads actually changed.
+ * The content script reads it with our own styles lifted, so a background
+ * the site changes under our theme still counts and our own restyling doesn't.
+ */
+
+import { siteThemeSignature, THEME_ATTRIBUTES } from "../utils/dark-detection";
+
+/** Theme toggles often animate or apply in several steps; wait for the last one */
+export const THEME_SETTLE_MS = 250;
+
+/** Call `onChange` after the site's theme markers or background change */
+export function watchSiteTheme(
+  onChange: () => void,
+  signature: () => string = siteThemeSignature,
+  settleMs = THEME_SETTLE_MS
+): { stop(): void } {
+  const html = document.documentElement;
+  let last = signature();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const settle = () => {
+    timer = null;
+    const next = signature();
+    // Reading may lift and restore our own styles; those records aren't the site's
+    observer.takeRecords();
+    if (next === last) return;
+    last = next;
+    onChange();
+  };
+
+  /** (Re)attach to <head> and <body>, which may not exist yet at document_start */
+  const observeChildren = () => {
+    if (document.head) observer.observe(document.head, { childList: true, subtree: true, attributes: true, attributeFilter: ["content", "media", "href"] });
+    if (document.body) observer.observe(document.body, { attributes: true, attributeFilter: THEME_ATTRIBUTES });
+  };
+
+  const observer = new MutationObserver((records) => {
+    if (records.some((r) => r.target === html && r.type === "childList")) observeChildren();
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(settle, settleMs);
+  });
+  observer.observe(html, { childList: true, attributes: true, attributeFilter: THEME_ATTRIBUTES });
+  observeChildren();
+
+  return {
+    stop() {
+      observer.disconnect();
+      if (timer) clearTimeout(timer);
+    }
+  };
+}
@@ -1,7 +1,25 @@
 // src/options/index.ts
-import type { Settings } from "../types/settings";
-import { getSettings, setSettings } from "../utils/storage";
+import type { Mode, Schedule, ScheduleKind, ScheduleWindow, Settings, SiteOverride } from "../types/settings";
+import { getSettings, setSettings as storeSettings, getStorageStatus, restoreSnapshot } from "../utils/storage";
+import { clearHistory, getHistory, onHistoryChanged } from "../utils/history";
+import { onSettingsChanged } from "../utils/settings-events";
+import { sendToBackground, sendToTab } from "../utils/messages";
 import { compileRegexList } from "../utils/regex";
+import { MODES, SETTING_RANGES } from "../utils/defaults";
+import { profileByName } from "../utils/effective-settings";
+import { sunTimes } from "../utils/solar";
+import { CITIES, findCity } from "../utils/cities";
+import { canonicalSiteKey } from "../utils/site-rules";
+import { normalizeSettings, SettingsValidationError } from "../utils/validation";
+import { applyImport, buildExport, diffConfig, parseImport, type ConfigDiff, type ConfigExport, type ImportStrategy } from "../utils/config-transfer";
+
+/** Settings this page last wrote, so its own storage.onChanged echoes don't re-render the UI */
+let lastWritten = "";
+
+async function setSettings(s: Settings, source: string) {
+  lastWritten = JSON.stringify(normalizeSettings(s).settings);
+  await storeSettings(s, `Options: ${source}`);
+}
 
 async function loadAndReflect() {
   const s = await getSettings();
@@ -10,14 +28,230 @@ async function loadAndReflect() {
   const debugModeResult = await browser.storage.local.get('isDebugMode');
   (document.getElementById("debugMode") as HTMLInputElement).checked = debugModeResult.isDebugMode === true;
 
-  (document.getElementById("schedEnabled") as HTMLInputElement).checked = s.schedule.enabled;
-  (document.getElementById("schedStart") as HTMLInputElement).value = s.schedule.start;
-  (document.getElementById("schedEnd") as HTMLInputElement).value = s.schedule.end;
+  reflectSchedule(s.schedule);
 
   const regexList = document.getElementById("regexList") as HTMLTextAreaElement;
   regexList.value = s.excludeRegex.join("\n");
 
+  renderProfileList(s);
   renderSiteList(s);
+  await reflectStorageStatus();
+  await renderHistory();
+  await renderShortcuts();
+}
+
+function formatTime(date: Date | null): string {
+  return date ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "—";
+}
+
+/** Weekday checkboxes in Monday-first order; values are Date#getDay() numbers */
+const WEEKDAYS: { day: number; label: string }[] = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" }
+];
+
+function renderScheduleWindows(windows: ScheduleWindow[]) {
+  const container = document.getElementById("schedWindows")!;
+  container.innerHTML = "";
+  if (!windows.length) {
+    container.innerHTML = `<p class="hint">No windows: the schedule never turns UltraDark on.</p>`;
+    return;
+  }
+  windows.forEach((w, index) => {
+    const row = document.createElement("div");
+    row.className = "schedule-window";
+    row.innerHTML = `
+      <div class="weekday-picker">
+        ${WEEKDAYS.map(({ day, label }) => `
+          <label class="checkbox-label">
+            <input type="checkbox" data-day="${day}" ${w.days.includes(day) ? "checked" : ""} />
+            <span>${label}</span>
+          </label>`).join("")}
+      </div>
+      <label>Start <input type="time" data-k="start" value="${w.start}" /></label>
+      <label>End <input type="time" data-k="end" value="${w.end}" /></label>
+      <button class="delete-btn" title="Remove this window">🗑️</button>
+    `;
+    container.appendChild(row);
+
+    row.querySelectorAll("input").forEach((input) => {
+      input.addEventListener("change", () => {
+        const next = structuredClone(windows);
+        next[index] = {
+          days: [...row.querySelectorAll<HTMLInputElement>("input[data-day]:checked")].map((el) => Number(el.dataset.day)),
+          start: (row.querySelector('input[data-k="start"]') as HTMLInputElement).value,
+          end: (row.querySelector('input[data-k="end"]') as HTMLInputElement).value
+        };
+        saveScheduleWindows(next, "schedule window");
+      });
+    });
+    row.querySelector(".delete-btn")!.addEventListener("click", () => {
+      saveScheduleWindows(windows.filter((_, i) => i !== index), "removed schedule window");
+    });
+  });
+}
+
+async function saveScheduleWindows(windows: ScheduleWindow[], source: string) {
+  const s = await getSettings();
+  s.schedule.windows = windows;
+  try {
+    await setSettings(s, source);
+    renderScheduleWindows((await getSettings()).schedule.windows);
+  } catch (err) {
+    if (!(err instanceof SettingsValidationError)) throw err;
+    showFeedback(document.getElementById("schedWindows")!, err.issues.map((i) => `${i.path}: ${i.message}`).join("; "));
+  }
+}
+
+function reflectSchedule(schedule: Schedule) {
+  (document.getElementById("schedEnabled") as HTMLInputElement).checked = schedule.enabled;
+  renderScheduleWindows(schedule.windows);
+  (document.querySelector(`input[name="schedKind"][value="${schedule.kind}"]`) as HTMLInputElement).checked = true;
+  document.getElementById("schedFixed")!.style.display = schedule.kind === "fixed" ? "" : "none";
+  document.getElementById("schedSolar")!.style.display = schedule.kind === "solar" ? "" : "none";
+
+  const { latitude, longitude, city, sunsetOffset, sunriseOffset } = schedule.solar;
+  const citySelect = document.getElementById("solarCity") as HTMLSelectElement;
+  if (!citySelect.options.length) {
+    citySelect.innerHTML = `<option value="">Custom coordinates</option>` +
+      CITIES.map((c) => `<option value="${escapeHtml(c.name)}">${escapeHtml(c.name)} (${c.country})</option>`).join("");
+  }
+  citySelect.value = findCity(city) ? city : "";
+  (document.getElementById("solarLat") as HTMLInputElement).value = String(latitude);
+  (document.getElementById("solarLon") as HTMLInputElement).value = String(longitude);
+  (document.getElementById("solarSunsetOffset") as HTMLInputElement).value = String(sunsetOffset);
+  (document.getElementById("solarSunriseOffset") as HTMLInputElement).value = String(sunriseOffset);
+
+  (document.getElementById("rampEnabled") as HTMLInputElement).checked = schedule.ramp.enabled;
+  (document.getElementById("rampMinutes") as HTMLInputElement).value = String(schedule.ramp.minutes);
+
+  const today = sunTimes(new Date(), latitude, longitude);
+  document.getElementById("solarToday")!.textContent = today.polar
+    ? `Today: polar ${today.polar}, the sun ${today.polar === "day" ? "does not set" : "does not rise"}.`
+    : `Today: sunset ${formatTime(today.sunset)}, sunrise ${formatTime(today.sunrise)} (before offsets).`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function renderProfileList(s: Settings) {
+  const container = document.getElementById("profiles")!;
+  container.innerHTML = "";
+  const entries = Object.entries(s.profiles);
+  if (!entries.length) {
+    container.innerHTML = `<p class="hint">No profiles yet. Use "Save Profile" in the toolbar popup to capture the current sliders.</p>`;
+    return;
+  }
+  for (const [name, p] of entries) {
+    const row = document.createElement("div");
+    row.className = "site";
+    row.innerHTML = `
+      <code class="site-origin">${escapeHtml(name)}</code>
+      <div class="site-controls">
+        <span class="hint">${p.mode}${p.amoled ? " · AMOLED" : ""} · brightness ${p.brightness}% · contrast ${p.contrast}% · sepia ${p.sepia}% · grayscale ${p.grayscale}% · blue shift ${p.blueShift}%</span>
+        <button class="delete-btn" title="Delete this profile">🗑️</button>
+      </div>
+    `;
+    container.appendChild(row);
+
+    row.querySelector(".delete-btn")!.addEventListener("click", async () => {
+      const st = await getSettings();
+      const users = Object.entries(st.perSite).filter(([, conf]) => conf.profile === name);
+      if (users.length && !confirm(`"${name}" is assigned to ${users.length} site(s). Delete it and revert them to global values?`)) {
+        return;
+      }
+      delete st.profiles[name];
+      for (const [, conf] of users) delete conf.profile;
+      await setSettings(st, `deleted profile "${name}"`);
+      renderProfileList(st);
+      renderSiteList(st);
+    });
+  }
+}
+
+async function reflectStorageStatus() {
+  const status = await getStorageStatus();
+  const el = document.getElementById("storageWarning")!;
+  if (status.area === "local") {
+    el.style.display = "block";
+    el.textContent = "⚠ Sync storage quota is exhausted, so settings are only saved on this device and will not sync. " +
+      "Remove some per-site overrides or regex exclusions to resume syncing." +
+      (status.reason ? ` (${status.reason})` : "");
+  } else {
+    el.style.display = "none";
+  }
+}
+
+async function renderHistory() {
+  const container = document.getElementById("history")!;
+  const history = await getHistory();
+  container.innerHTML = "";
+  if (!history.length) {
+    container.innerHTML = `<p class="hint">No changes recorded yet.</p>`;
+    return;
+  }
+  for (const snap of history) {
+    const row = document.createElement("div");
+    row.className = "site";
+    row.innerHTML = `
+      <div class="history-entry">
+        <span class="history-source">${escapeHtml(snap.source)}</span>
+        <span class="hint">${new Date(snap.at).toLocaleString()} · ${Object.keys(snap.settings.perSite).length} site override(s) · ${snap.settings.excludeRegex.length} regex exclusion(s)</span>
+      </div>
+      <div class="site-controls">
+        <button class="secondary-btn" title="Restore the settings as they were before this change">Restore</button>
+      </div>
+    `;
+    container.appendChild(row);
+
+    row.querySelector("button")!.addEventListener("click", async () => {
+      if (!confirm(`Restore the settings from before "${snap.source}"? The current settings stay in the history.`)) return;
+      await restoreSnapshot(snap.id);
+      await loadAndReflect();
+      showFeedback(row, "Restored");
+    });
+  }
+}
+
+async function renderShortcuts() {
+  const container = document.getElementById("shortcuts")!;
+  const commands = await browser.commands.getAll();
+  container.innerHTML = "";
+  for (const command of commands) {
+    if (!command.name) continue;
+    const name = command.name;
+    const row = document.createElement("div");
+    row.className = "site shortcut";
+    row.innerHTML = `
+      <span class="shortcut-description">${escapeHtml(command.description || name)}</span>
+      <div class="site-controls">
+        <input type="text" class="shortcut-key" value="${escapeHtml(command.shortcut || "")}" placeholder="Not set" />
+        <button class="secondary-btn" title="Go back to the default shortcut">Reset</button>
+      </div>
+    `;
+    container.appendChild(row);
+
+    const input = row.querySelector("input")!;
+    input.addEventListener("change", async () => {
+      try {
+        await browser.commands.update({ name, shortcut: input.value.trim() });
+        showFeedback(row, input.value.trim() ? "✓ Saved" : "✓ Removed");
+      } catch (err) {
+        showFeedback(row, `Invalid shortcut: ${(err as Error).message}`);
+      }
+      await renderShortcuts();
+    });
+    row.querySelector("button")!.addEventListener("click", async () => {
+      await browser.commands.reset(name);
+      await renderShortcuts();
+    });
+  }
 }
 
 function renderSiteList(s: Settings) {
@@ -25,7 +259,7 @@ function renderSiteList(s: Settings) {
   container.innerHTML = "";
   const entries = Object.entries(s.perSite);
   if (!entries.length) {
-    container.innerHTML = `<p class="hint">No per-site overrides yet. Use the button below to add the current tab.</p>`;
+    container.innerHTML = `<p class="hint">No per-site overrides yet. Add a rule below or use "Add Active Site" in the toolbar popup.</p>`;
     return;
   }
   for (const [origin, conf] of entries) {
@@ -38,34 +272,50 @@ function renderSiteList(s: Settings) {
     const useDefault = !alwaysOn && !disabled;
     
     row.innerHTML = `
-      <code class="site-origin">${origin}</code>
+      <code class="site-origin">${escapeHtml(origin)}</code>
       <div class="site-controls">
         <label class="radio-label">
-          <input type="radio" name="mode-${origin}" value="default" ${useDefault ? "checked" : ""} />
+          <input type="radio" name="mode-${escapeHtml(origin)}" value="default" ${useDefault ? "checked" : ""} />
           <span>Use global setting</span>
         </label>
         <label class="radio-label">
-          <input type="radio" name="mode-${origin}" value="enabled" ${alwaysOn ? "checked" : ""} />
+          <input type="radio" name="mode-${escapeHtml(origin)}" value="enabled" ${alwaysOn ? "checked" : ""} />
           <span>Always on</span>
         </label>
         <label class="radio-label">
-          <input type="radio" name="mode-${origin}" value="disabled" ${disabled ? "checked" : ""} />
+          <input type="radio" name="mode-${escapeHtml(origin)}" value="disabled" ${disabled ? "checked" : ""} />
           <span>Disabled</span>
         </label>
         <label class="checkbox-label">
           <input type="checkbox" data-k="forceDarkMode" ${conf.forceDarkMode ? "checked" : ""} />
           <span>Force on dark sites</span>
         </label>
-        <button class="delete-btn" data-origin="${origin}" title="Remove this site override">🗑️</button>
+        <label class="select-label">
+          <span>Profile</span>
+          <select data-k="profile">
+            <option value="">None (global values)</option>
+            ${Object.keys(s.profiles).map((name) =>
+              `<option value="${escapeHtml(name)}" ${conf.profile === name ? "selected" : ""}>${escapeHtml(name)}</option>`
+            ).join("")}
+          </select>
+        </label>
+        <button class="delete-btn" data-origin="${escapeHtml(origin)}" title="Remove this site override">🗑️</button>
       </div>
+      ${conf.excludeSelectors?.length ? `
+      <div class="site-exclusions">
+        <span class="hint">Excluded elements</span>
+        ${conf.excludeSelectors.map((sel, i) => `
+          <span class="selector-chip"><code>${escapeHtml(sel)}</code><button type="button" data-selector="${i}" title="Theme this element again">✕</button></span>`).join("")}
+      </div>` : ""}
     `;
+    row.appendChild(renderSiteEditor(s, origin, conf));
     container.appendChild(row);
 
     // Auto-save on any change
     const radios = row.querySelectorAll('input[type="radio"]');
     radios.forEach((radio) => {
       radio.addEventListener("change", async () => {
-        const selected = (row.querySelector(`input[name="mode-${origin}"]:checked`) as HTMLInputElement)?.value;
+        const selected = (row.querySelector('input[type="radio"]:checked') as HTMLInputElement)?.value;
         const forceDarkMode = (row.querySelector('input[data-k="forceDarkMode"]') as HTMLInputElement).checked;
         const st = await getSettings();
         st.perSite[origin] ||= {};
@@ -78,13 +328,13 @@ function renderSiteList(s: Settings) {
           st.perSite[origin].enabled = false;
           st.perSite[origin].exclude = true;
         } else {
-          // Default: clear both
-          st.perSite[origin].enabled = false;
-          st.perSite[origin].exclude = false;
+          // Default: clear both so the global switch (or a broader rule) decides
+          delete st.perSite[origin].enabled;
+          delete st.perSite[origin].exclude;
         }
         
         st.perSite[origin].forceDarkMode = forceDarkMode;
-        await setSettings(st);
+        await setSettings(st, `${origin} set to ${selected === "default" ? "global setting" : selected}`);
         showFeedback(row, "Saved");
       });
     });
@@ -96,15 +346,40 @@ function renderSiteList(s: Settings) {
       const st = await getSettings();
       st.perSite[origin] ||= {};
       st.perSite[origin].forceDarkMode = forceDarkMode;
-      await setSettings(st);
+      await setSettings(st, `${origin} force on dark sites`);
+      showFeedback(row, "Saved");
+    });
+
+    // Auto-save profile assignment
+    const profileSelect = row.querySelector('select[data-k="profile"]') as HTMLSelectElement;
+    profileSelect.addEventListener("change", async () => {
+      const st = await getSettings();
+      st.perSite[origin] ||= {};
+      if (profileSelect.value) st.perSite[origin].profile = profileSelect.value;
+      else delete st.perSite[origin].profile;
+      await setSettings(st, `${origin} profile`);
       showFeedback(row, "Saved");
     });
 
+    // Stop excluding an element ("Exclude this element" in the context menu)
+    row.querySelectorAll<HTMLButtonElement>("[data-selector]").forEach((btn) => {
+      btn.addEventListener("click", async () => {
+        const st = await getSettings();
+        const selector = conf.excludeSelectors![Number(btn.dataset.selector)];
+        if (!st.perSite[origin]) return;
+        const rest = (st.perSite[origin].excludeSelectors ?? []).filter((sel) => sel !== selector);
+        if (rest.length) st.perSite[origin].excludeSelectors = rest;
+        else delete st.perSite[origin].excludeSelectors;
+        await setSettings(st, `${origin} theme element ${selector}`);
+        renderSiteList(st);
+      });
+    });
+
     // Delete button
     row.querySelector(".delete-btn")!.addEventListener("click", async () => {
       const st = await getSettings();
       delete st.perSite[origin];
-      await setSettings(st);
+      await setSettings(st, `removed ${origin}`);
       row.style.opacity = "0";
       row.style.transform = "translateX(-10px)";
       setTimeout(() => {
@@ -118,6 +393,134 @@ function renderSiteList(s: Settings) {
   }
 }
 
+type OverrideKey = "mode" | "amoled" | "brightness" | "contrast" | "sepia" | "grayscale" | "blueShift" | "optimizerEnabled";
+
+const OVERRIDE_FIELDS: { key: OverrideKey; label: string }[] = [
+  { key: "mode", label: "Algorithm" },
+  { key: "amoled", label: "AMOLED black" },
+  { key: "brightness", label: "Brightness" },
+  { key: "contrast", label: "Contrast" },
+  { key: "sepia", label: "Sepia" },
+  { key: "grayscale", label: "Grayscale" },
+  { key: "blueShift", label: "Blue shift" },
+  { key: "optimizerEnabled", label: "Contrast optimizer" }
+];
+
+function overrideSummary(override: Partial<Settings> | undefined): string {
+  const count = OVERRIDE_FIELDS.filter(({ key }) => override && key in override).length;
+  return `Theme overrides${count ? ` (${count})` : ""}`;
+}
+
+/** Site rows whose editor is expanded, so re-renders keep them open */
+const openEditors = new Set<string>();
+
+function fieldControl(key: OverrideKey, value: unknown, inherited: boolean): string {
+  const dis = inherited ? "disabled" : "";
+  if (key === "mode") {
+    return `<select data-input ${dis}>${MODES.map((m) => `<option value="${m}" ${m === value ? "selected" : ""}>${m}</option>`).join("")}</select>`;
+  }
+  if (key === "amoled" || key === "optimizerEnabled") {
+    return `<input type="checkbox" data-input ${value ? "checked" : ""} ${dis} />`;
+  }
+  const { min, max } = SETTING_RANGES[key];
+  return `<input type="range" data-input min="${min}" max="${max}" value="${value}" ${dis} /><span class="override-value">${value}%</span>`;
+}
+
+/** Where a field without its own value comes from: the site's profile when it sets the field, else the global settings */
+function inheritedSource(s: Settings, conf: SiteOverride, key: OverrideKey): { value: unknown; label: string } {
+  const profile = profileByName(s, conf.profile);
+  if (profile && key in profile) return { value: profile[key as keyof typeof profile], label: `profile “${conf.profile}”` };
+  return { value: s[key], label: "global" };
+}
+
+/**
+ * Expandable editor for a site's `override` values
+ * Each field either inherits (global value, or the site's profile) or carries its own value.
+ * Saved changes reach open tabs through storage.onChanged.
+ */
+function renderSiteEditor(s: Settings, origin: string, conf: SiteOverride): HTMLDetailsElement {
+  const override = conf.override || {};
+
+  const details = document.createElement("details");
+  details.className = "site-editor";
+  details.open = openEditors.has(origin);
+  details.innerHTML = `
+    <summary>${overrideSummary(override)}</summary>
+    ${OVERRIDE_FIELDS.map(({ key, label }) => {
+      const inherited = !(key in override);
+      const source = inheritedSource(s, conf, key);
+      const value = inherited ? source.value : override[key];
+      return `
+        <div class="override-field" data-field="${key}">
+          <span class="override-label">${label}</span>
+          <div class="override-input">${fieldControl(key, value, inherited)}</div>
+          <label class="checkbox-label">
+            <input type="checkbox" data-inherit ${inherited ? "checked" : ""} />
+            <span>Inherit ${escapeHtml(source.label)}</span>
+          </label>
+        </div>`;
+    }).join("")}
+  `;
+  details.addEventListener("toggle", () => {
+    if (details.open) openEditors.add(origin);
+    else openEditors.delete(origin);
+  });
+
+  for (const { key, label } of OVERRIDE_FIELDS) {
+    const source = inheritedSource(s, conf, key);
+    const field = details.querySelector(`[data-field="${key}"]`) as HTMLElement;
+    const input = field.querySelector("[data-input]") as HTMLInputElement | HTMLSelectElement;
+    const inherit = field.querySelector("[data-inherit]") as HTMLInputElement;
+    const valueLabel = field.querySelector(".override-value");
+
+    const read = (): unknown => {
+      if (input instanceof HTMLSelectElement) return input.value as Mode;
+      return input.type === "checkbox" ? input.checked : Number(input.value);
+    };
+
+    const save = async (value: unknown) => {
+      const st = await getSettings();
+      const per = (st.perSite[origin] ||= {});
+      const next: Partial<Settings> = { ...per.override };
+      if (value === undefined) delete next[key];
+      else (next as Record<string, unknown>)[key] = value;
+      if (Object.keys(next).length) per.override = next;
+      else delete per.override;
+      await setSettings(st, `${origin} ${label.toLowerCase()}${value === undefined ? ` inherits ${source.label}` : ""}`);
+      details.querySelector("summary")!.textContent = overrideSummary(per.override);
+      showFeedback(field, "Saved");
+    };
+
+    // Sliders save shortly after the last movement instead of on every step
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    input.addEventListener("input", () => {
+      if (valueLabel) valueLabel.textContent = `${input.value}%`;
+      if (input.type !== "range") return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => save(read()), 250);
+    });
+    if (input.type !== "range") input.addEventListener("change", () => save(read()));
+
+    inherit.addEventListener("change", () => {
+      input.disabled = inherit.checked;
+      if (inherit.checked) {
+        // Show the value the site falls back to
+        const fallback = source.value;
+        if (input instanceof HTMLSelectElement) input.value = String(fallback);
+        else if (input.type === "checkbox") input.checked = fallback === true;
+        else input.value = String(fallback);
+        if (valueLabel) valueLabel.textContent = `${input.value}%`;
+        save(undefined);
+      } else {
+        // Start the override from whatever is shown
+        save(read());
+      }
+    });
+  }
+
+  return details;
+}
+
 function showFeedback(element: HTMLElement, message: string) {
   const existing = element.querySelector(".save-feedback");
   if (existing) existing.remove();
@@ -133,6 +536,122 @@ function showFeedback(element: HTMLElement, message: string) {
   }, 1500);
 }
 
+function showBadge(el: HTMLElement, kind: "success" | "error" | "info", message: string) {
+  el.style.display = "block";
+  el.className = `badge ${kind}`;
+  el.textContent = message;
+}
+
+function renderDiff(container: HTMLElement, diff: ConfigDiff) {
+  container.innerHTML = "";
+  const sections: [string, string[], string][] = [
+    ["Sites added", diff.perSite.added, "diff-added"],
+    ["Sites changed", diff.perSite.changed, "diff-changed"],
+    ["Sites dropped", diff.perSite.removed, "diff-removed"],
+    ["Regex lines added", diff.excludeRegex.added, "diff-added"],
+    ["Regex lines dropped", diff.excludeRegex.removed, "diff-removed"]
+  ];
+
+  let any = false;
+  for (const [title, items, cls] of sections) {
+    if (!items.length) continue;
+    any = true;
+    const heading = document.createElement("p");
+    heading.className = `hint ${cls}`;
+    heading.textContent = `${title} (${items.length})`;
+    const list = document.createElement("ul");
+    list.className = "diff-list";
+    for (const item of items) {
+      // Imported files are untrusted: build nodes instead of interpolating HTML
+      const li = document.createElement("li");
+      const code = document.createElement("code");
+      code.textContent = item;
+      li.appendChild(code);
+      list.appendChild(li);
+    }
+    container.append(heading, list);
+  }
+
+  if (!any) {
+    container.innerHTML = `<p class="hint">No per-site or regex changes. Global theme values may still change with "Replace".</p>`;
+  }
+}
+
+function bindImportExport() {
+  const importFile = document.getElementById("importFile") as HTMLInputElement;
+  const preview = document.getElementById("importPreview")!;
+  const diffEl = document.getElementById("importDiff")!;
+  const result = document.getElementById("importResult")!;
+  let pending: ConfigExport | null = null;
+
+  const strategy = () =>
+    ((document.querySelector('input[name="importStrategy"]:checked') as HTMLInputElement)?.value || "merge") as ImportStrategy;
+
+  const refreshPreview = async () => {
+    if (!pending) return;
+    const current = await getSettings();
+    renderDiff(diffEl, diffConfig(current, applyImport(current, pending.settings, strategy())));
+  };
+
+  (document.getElementById("exportBtn") as HTMLButtonElement).onclick = async () => {
+    const s = await getSettings();
+    const debugModeResult = await browser.storage.local.get('isDebugMode');
+    const doc = buildExport(s, debugModeResult.isDebugMode === true);
+
+    const blob = new Blob([JSON.stringify(doc, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `ultradark-config-${doc.exportedAt.slice(0, 10)}.json`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  importFile.onchange = async () => {
+    const file = importFile.files?.[0];
+    importFile.value = "";
+    if (!file) return;
+
+    try {
+      pending = parseImport(await file.text());
+    } catch (err) {
+      pending = null;
+      preview.style.display = "none";
+      const detail = err instanceof SettingsValidationError
+        ? err.issues.map((i) => `${i.path}: ${i.message}`).join("; ")
+        : (err as Error).message;
+      showBadge(result, "error", `Import failed: ${detail}`);
+      return;
+    }
+
+    result.style.display = "none";
+    preview.style.display = "block";
+    await refreshPreview();
+  };
+
+  document.querySelectorAll('input[name="importStrategy"]').forEach((radio) => {
+    radio.addEventListener("change", refreshPreview);
+  });
+
+  (document.getElementById("importCancel") as HTMLButtonElement).onclick = () => {
+    pending = null;
+    preview.style.display = "none";
+  };
+
+  (document.getElementById("importApply") as HTMLButtonElement).onclick = async () => {
+    if (!pending) return;
+    const current = await getSettings();
+    await setSettings(applyImport(current, pending.settings, strategy()), `import (${strategy()})`);
+    await browser.storage.local.set({ isDebugMode: pending.local.isDebugMode });
+    sendToBackground("udr:debug-mode-changed", { enabled: pending.local.isDebugMode }).catch(() => {});
+
+    pending = null;
+    preview.style.display = "none";
+    await loadAndReflect();
+    showBadge(result, "success", "✓ Configuration imported");
+  };
+}
+
 function bind() {
   // Debug mode toggle
   const debugMode = document.getElementById("debugMode") as HTMLInputElement;
@@ -140,37 +659,112 @@ function bind() {
     await browser.storage.local.set({ isDebugMode: debugMode.checked });
     
     // Notify background script that debug mode changed
-    browser.runtime.sendMessage({ 
-      type: "udr:debug-mode-changed", 
-      enabled: debugMode.checked 
-    }).catch(() => {}); // Ignore errors
+    sendToBackground("udr:debug-mode-changed", { enabled: debugMode.checked }).catch(() => {}); // Ignore errors
     
     // Notify all tabs that debug mode changed
     const tabs = await browser.tabs.query({});
     for (const tab of tabs) {
       if (tab.id) {
-        browser.tabs.sendMessage(tab.id, { 
-          type: "udr:debug-mode-changed", 
-          enabled: debugMode.checked 
-        }).catch(() => {}); // Ignore errors for tabs without content script
+        sendToTab(tab.id, "udr:debug-mode-changed", { enabled: debugMode.checked }).catch(() => {}); // Ignore errors for tabs without content script
       }
     }
   };
 
   const schedEnabled = document.getElementById("schedEnabled") as HTMLInputElement;
-  const schedStart = document.getElementById("schedStart") as HTMLInputElement;
-  const schedEnd = document.getElementById("schedEnd") as HTMLInputElement;
 
   schedEnabled.onchange = async () => {
     const s = await getSettings();
     s.schedule.enabled = schedEnabled.checked;
-    await setSettings(s);
+    await setSettings(s, "schedule on/off");
   };
-  schedStart.onchange = schedEnd.onchange = async () => {
+  document.querySelectorAll('input[name="schedKind"]').forEach((radio) => {
+    radio.addEventListener("change", async () => {
+      const s = await getSettings();
+      s.schedule.kind = (radio as HTMLInputElement).value as ScheduleKind;
+      await setSettings(s, "schedule type");
+      reflectSchedule(s.schedule);
+    });
+  });
+
+  const citySelect = document.getElementById("solarCity") as HTMLSelectElement;
+  const solarInputs = ["solarLat", "solarLon", "solarSunsetOffset", "solarSunriseOffset"].map(
+    (id) => document.getElementById(id) as HTMLInputElement
+  );
+  const [solarLat, solarLon, solarSunsetOffset, solarSunriseOffset] = solarInputs;
+
+  const saveSolar = async (source: string) => {
     const s = await getSettings();
-    s.schedule.start = schedStart.value;
-    s.schedule.end = schedEnd.value;
-    await setSettings(s);
+    s.schedule.solar = {
+      latitude: Number(solarLat.value),
+      longitude: Number(solarLon.value),
+      city: citySelect.value,
+      sunsetOffset: Number(solarSunsetOffset.value),
+      sunriseOffset: Number(solarSunriseOffset.value)
+    };
+    try {
+      await setSettings(s, source);
+      reflectSchedule(s.schedule);
+    } catch (err) {
+      if (!(err instanceof SettingsValidationError)) throw err;
+      showFeedback(citySelect.closest(".card") as HTMLElement, err.issues.map((i) => `${i.path}: ${i.message}`).join("; "));
+    }
+  };
+
+  citySelect.onchange = () => {
+    const city = findCity(citySelect.value);
+    if (city) {
+      solarLat.value = String(city.latitude);
+      solarLon.value = String(city.longitude);
+    }
+    saveSolar("schedule city");
+  };
+  solarInputs.forEach((input) => {
+    input.onchange = () => {
+      // Hand-edited coordinates no longer belong to the picked city
+      if (input === solarLat || input === solarLon) citySelect.value = "";
+      saveSolar(input === solarLat || input === solarLon ? "schedule location" : "schedule offsets");
+    };
+  });
+
+  const rampEnabled = document.getElementById("rampEnabled") as HTMLInputElement;
+  const rampMinutes = document.getElementById("rampMinutes") as HTMLInputElement;
+  const saveRamp = async (source: string) => {
+    const s = await getSettings();
+    s.schedule.ramp = { enabled: rampEnabled.checked, minutes: Number(rampMinutes.value) };
+    try {
+      await setSettings(s, source);
+    } catch (err) {
+      if (!(err instanceof SettingsValidationError)) throw err;
+      showFeedback(rampEnabled.closest(".card") as HTMLElement, err.issues.map((i) => `${i.path}: ${i.message}`).join("; "));
+    }
+    reflectSchedule((await getSettings()).schedule);
+  };
+  rampEnabled.onchange = () => saveRamp("schedule ramp on/off");
+  rampMinutes.onchange = () => saveRamp("schedule ramp length");
+
+  (document.getElementById("addWindow") as HTMLButtonElement).onclick = async () => {
+    const s = await getSettings();
+    // Start from weekday evenings, the most common edit
+    await saveScheduleWindows([...s.schedule.windows, { days: [1, 2, 3, 4, 5], start: "19:00", end: "07:00" }], "added schedule window");
+  };
+
+  const newRule = document.getElementById("newRule") as HTMLInputElement;
+  (document.getElementById("addRule") as HTMLButtonElement).onclick = async () => {
+    const key = canonicalSiteKey(newRule.value.trim());
+    const card = newRule.closest(".card") as HTMLElement;
+    if (!key) {
+      showFeedback(card, "Not a valid rule: use an origin, *.domain, or either followed by a /path");
+      return;
+    }
+    const s = await getSettings();
+    if (s.perSite[key]) {
+      showFeedback(card, "That rule already exists");
+      return;
+    }
+    s.perSite[key] = {};
+    await setSettings(s, `added ${key}`);
+    newRule.value = "";
+    renderSiteList(s);
   };
 
   // Auto-save regex on blur or when test is clicked
@@ -179,7 +773,8 @@ function bind() {
     const raw = regexList.value.split("\n").map((x) => x.trim()).filter(Boolean);
     const s = await getSettings();
     s.excludeRegex = raw;
-    await setSettings(s);
+    await setSettings(s, "regex exclusions");
+    await reflectStorageStatus();
   });
 
   (document.getElementById("testBtn") as HTMLButtonElement).onclick = async () => {
@@ -204,7 +799,7 @@ function bind() {
       // Auto-save regex patterns when testing
       const s = await getSettings();
       s.excludeRegex = raw;
-      await setSettings(s);
+      await setSettings(s, "regex exclusions");
     } catch (err) {
       badge.style.display = "block";
       badge.className = "badge error";
@@ -212,6 +807,11 @@ function bind() {
     }
   };
 
+  (document.getElementById("clearHistory") as HTMLButtonElement).onclick = async () => {
+    if (!confirm("Forget all recorded settings snapshots?")) return;
+    await clearHistory();
+  };
+
   // Reset all settings to defaults
   (document.getElementById("resetSettings") as HTMLButtonElement).onclick = async () => {
     const confirmed = confirm(
@@ -221,7 +821,7 @@ function bind() {
       "• Remove all regex exclusions\n" +
       "• Restore default theme settings\n" +
       "• Keep debug mode setting\n\n" +
-      "This action cannot be undone."
+      "The current settings can be restored from Settings History."
     );
     
     if (!confirmed) return;
@@ -230,24 +830,30 @@ function bind() {
     const { DEFAULTS } = await import("../utils/defaults");
     
     // Reset sync storage to defaults
-    await setSettings(DEFAULTS);
+    await setSettings(DEFAULTS, "reset to defaults");
     
     // Reload the UI to reflect changes
     await loadAndReflect();
     
-    // Notify all tabs to update
-    const tabs = await browser.tabs.query({});
-    for (const tab of tabs) {
-      if (tab.id) {
-        browser.tabs.sendMessage(tab.id, { 
-          type: "udr:settings-updated"
-        }).catch(() => {});
-      }
-    }
-    
-    alert("Settings have been reset to defaults. All tabs will be refreshed with the default theme.");
+    alert("Settings have been reset to defaults. Open tabs will switch to the default theme.");
   };
 }
 
 loadAndReflect();
 bind();
+bindImportExport();
+
+onHistoryChanged(() => renderHistory());
+// Shortcuts may have been changed in Add-ons → Manage Extension Shortcuts meanwhile
+window.addEventListener("focus", () => renderShortcuts());
+
+// Pick up changes made from the popup, context menu, scheduler or another device
+onSettingsChanged(async (next) => {
+  await reflectStorageStatus();
+  if (JSON.stringify(next) === lastWritten) return;
+  renderProfileList(next);
+  renderSiteList(next);
+  const regexList = document.getElementById("regexList") as HTMLTextAreaElement;
+  if (document.activeElement !== regexList) regexList.value = next.excludeRegex.join("\n");
+  reflectSchedule(next.schedule);
+});
@@ -1,12 +1,21 @@
 // src/popup/index.ts
-import type { Settings } from "../types/settings";
-import { getSettings, setSettings, originFromUrl } from "../utils/storage";
+import type { Settings, ThemeProfile } from "../types/settings";
+import { getSettings, setSettings, getStorageStatus } from "../utils/storage";
+import { siteKeyFromUrl } from "../utils/site-rules";
+import { SETTING_RANGES } from "../utils/defaults";
+import { SettingsValidationError, type ValidationIssue } from "../utils/validation";
+import { onSettingsChanged } from "../utils/settings-events";
+import { sendToBackground, sendToTab } from "../utils/messages";
+import { scheduleActive } from "../utils/schedule";
+import { getScheduleOverride, holdScheduleOverride, clearScheduleOverride } from "../utils/schedule-override";
+import { activeSnooze, formatRemaining, getSnoozes, onSnoozesChanged, resumeSnooze, snooze, snoozeUntil, type SnoozeDuration } from "../utils/snooze";
 
 const $ = (sel: string) => document.querySelector(sel) as HTMLElement;
 const $$ = (sel: string) => document.querySelectorAll(sel);
 
 // Capture active tab URL when popup opens
 let activeTabUrl: string | null = null;
+let activeTabId: number | null = null;
 
 async function captureActiveTabUrl(): Promise<void> {
   try {
@@ -14,6 +23,7 @@ async function captureActiveTabUrl(): Promise<void> {
     if (tab?.url) {
       activeTabUrl = tab.url;
     }
+    activeTabId = tab?.id ?? null;
   } catch {
     activeTabUrl = null;
   }
@@ -40,14 +50,84 @@ function debounce<T extends (...args: unknown[]) => void>(
 }
 
 
+async function reflectStorageStatus() {
+  const status = await getStorageStatus();
+  const el = $("#storageWarning");
+  el.hidden = status.area !== "local";
+  el.textContent = "Sync storage is full: settings are saved on this device only. Remove some per-site overrides to resume syncing.";
+}
+
+/** Show why the last change from the controls wasn't applied, or hide the note */
+function showSaveError(issues: ValidationIssue[] | null) {
+  const el = $("#saveError");
+  el.hidden = issues === null;
+  el.textContent = issues ? `Change not applied: ${issues.map((i) => i.message).join("; ")}` : "";
+}
+
+function formatUntil(until: number): string {
+  const at = new Date(until);
+  const time = at.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  if (at.toDateString() === new Date().toDateString()) return time;
+  return `${at.toLocaleDateString([], { weekday: "short" })} ${time}`;
+}
+
+/** "Overridden until 07:00" while a manual flip is holding off the schedule */
+async function reflectScheduleOverride(s: Settings) {
+  const override = s.schedule.enabled ? await getScheduleOverride() : null;
+  const box = $("#scheduleOverride");
+  box.hidden = !override;
+  if (!override) return;
+  $("#scheduleOverrideText").textContent = override.until === null
+    ? "Schedule overridden"
+    : `Overridden until ${formatUntil(override.until)}`;
+}
+
+let snoozeTimer: ReturnType<typeof setInterval> | null = null;
+
+/** "Paused on this site · 14:32 left", ticking every second until the pause ends */
+async function reflectSnooze() {
+  const active = activeSnooze(activeTabUrl ?? "", await getSnoozes());
+  const box = $("#snoozeStatus");
+  if (snoozeTimer) clearInterval(snoozeTimer);
+  snoozeTimer = null;
+  box.hidden = !active;
+  if (!active) return;
+
+  const where = active.target === "global" ? "everywhere" : "on this site";
+  const update = () => {
+    const left = active.until - Date.now();
+    if (left <= 0) {
+      void reflectSnooze();
+      return;
+    }
+    $("#snoozeCountdown").textContent = `Paused ${where} · ${formatRemaining(left)} left`;
+  };
+  update();
+  snoozeTimer = setInterval(update, 1000);
+  ($("#resumeSnooze") as HTMLButtonElement).onclick = () => resumeSnooze(active.target);
+}
+
+/** Where popup changes go: the synced settings, or this tab's session-only override */
+type Scope = "global" | "tab";
+
 async function init() {
   const s = await getSettings();
+  let scope: Scope = "global";
+  let tabOverride: Partial<Settings> = activeTabId === null
+    ? {}
+    : await sendToBackground("udr:get-tab-override", { tabId: activeTabId }).catch(() => ({}));
+  if (Object.keys(tabOverride).length) scope = "tab";
+  /** What the controls show: the settings, plus this tab's override in tab scope */
+  const view = (): Settings => (scope === "tab" ? { ...s, ...tabOverride } : s);
+  await reflectStorageStatus();
+  await reflectScheduleOverride(s);
   // Bind controls
   const toggle = $("#toggle") as HTMLInputElement;
   const amoled = $("#amoled") as HTMLInputElement;
   const optimizer = $("#optimizer") as HTMLInputElement;
   const detectDark = $("#detectDark") as HTMLInputElement;
-  const modeButtons = $$(".mode-btn");
+  const modeButtons = $$(".mode-btn[data-mode]");
+  const scopeButtons = $$(".mode-btn[data-scope]");
 
   const brightness = $("#brightness") as HTMLInputElement;
   const contrast = $("#contrast") as HTMLInputElement;
@@ -89,7 +169,7 @@ async function init() {
     bluV.textContent = `${st.blueShift}%`;
 
     // Update slider backgrounds
-    updateSliderBackground(brightness, st.brightness, 50, 120);
+    updateSliderBackground(brightness, st.brightness, 50, SETTING_RANGES.brightness.max);
     updateSliderBackground(contrast, st.contrast, 50, 200);
     updateSliderBackground(sepia, st.sepia, 0, 100);
     updateSliderBackground(grayscale, st.grayscale, 0, 100);
@@ -103,26 +183,96 @@ async function init() {
     slider.style.background = `linear-gradient(to right, ${accent} 0%, ${accent} ${percent}%, ${track} ${percent}%, ${track} 100%)`;
   }
 
-  reflect(s);
+  function reflectScope() {
+    scopeButtons.forEach((btn) => btn.classList.toggle("active", (btn as HTMLElement).dataset.scope === scope));
+    $("#tabScopeNote").hidden = scope !== "tab";
+    reflect(view());
+  }
+
+  /**
+   * Apply a change from the controls: in tab scope it only goes to the background's
+   * in-memory override for this tab; otherwise it is saved (and synced) as usual
+   */
+  async function commit(patch: Partial<Settings>, source: string) {
+    if (scope === "tab" && activeTabId !== null) {
+      const previous = tabOverride;
+      tabOverride = { ...tabOverride, ...patch };
+      reflect(view());
+      const reply = await sendToBackground("udr:set-tab-override", { tabId: activeTabId, override: tabOverride })
+        .catch((err: unknown) => ({ ok: false as const, errors: [{ path: "tab", message: err instanceof Error ? err.message : String(err) }] }));
+      if (reply.ok) {
+        showSaveError(null);
+      } else {
+        // Put the controls back: the tab never got the change
+        tabOverride = previous;
+        reflect(view());
+        showSaveError(reply.errors);
+      }
+      return;
+    }
+    const previous = Object.fromEntries(Object.keys(patch).map((k) => [k, s[k as keyof Settings]]));
+    Object.assign(s, patch);
+    reflect(s);
+    try {
+      await setSettings(s, source);
+      showSaveError(null);
+    } catch (err) {
+      if (!(err instanceof SettingsValidationError)) throw err;
+      Object.assign(s, previous);
+      reflect(s);
+      showSaveError(err.issues);
+    }
+  }
+
+  reflectScope();
+
+  scopeButtons.forEach((btn) => {
+    const isTab = (btn as HTMLElement).dataset.scope === "tab";
+    // about: and other pages without a content script can't take a tab override
+    if (isTab && (activeTabId === null || !activeTabUrl || !siteKeyFromUrl(activeTabUrl))) (btn as HTMLButtonElement).disabled = true;
+    btn.addEventListener("click", () => {
+      scope = isTab ? "tab" : "global";
+      reflectScope();
+    });
+  });
+
+  $("#clearTabOverride").addEventListener("click", async () => {
+    tabOverride = {};
+    if (activeTabId !== null) await sendToBackground("udr:set-tab-override", { tabId: activeTabId, override: {} });
+    scope = "global";
+    reflectScope();
+  });
+
+  // Keep the popup in sync with changes made elsewhere (options, context menu, scheduler)
+  onSettingsChanged((next) => {
+    Object.assign(s, next);
+    void reflectScheduleOverride(s);
+    // Don't yank a slider out from under the user while they drag it
+    if ((document.activeElement as HTMLInputElement | null)?.type === "range") return;
+    reflect(view());
+  });
 
   toggle.onchange = async () => {
-    s.enabled = toggle.checked;
+    await commit({ enabled: toggle.checked }, "Popup: on/off toggle");
+    // Flipping against the schedule holds until its next transition (a tab override never does)
+    if (scope === "global" && s.schedule.enabled) await holdScheduleOverride(s.schedule, s.enabled);
+    await reflectScheduleOverride(s);
+  };
+
+  ($("#resumeSchedule") as HTMLButtonElement).onclick = async () => {
+    await clearScheduleOverride();
+    s.enabled = scheduleActive(s.schedule);
     reflect(s);
-    await setSettings(s);
-    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-    if (tab?.id) browser.tabs.sendMessage(tab.id, { type: "udr:settings-updated" }).catch(() => {});
+    await setSettings(s, "Popup: resume schedule");
+    await reflectScheduleOverride(s);
   };
 
   // Mode button click handler
   modeButtons.forEach((btn) => {
     btn.addEventListener("click", async () => {
       const mode = (btn as HTMLElement).dataset.mode as Settings["mode"];
-      if (mode && mode !== s.mode) {
-        s.mode = mode;
-        reflect(s);
-        await setSettings(s);
-        const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-        if (tab?.id) browser.tabs.sendMessage(tab.id, { type: "udr:settings-updated" }).catch(() => {});
+      if (mode && mode !== view().mode) {
+        await commit({ mode }, `Popup: ${mode} algorithm`);
       }
     });
   });
@@ -130,11 +280,7 @@ async function init() {
   function bindRange(el: HTMLInputElement, key: keyof Settings, label: HTMLElement, min: number, max: number) {
     // Create a debounced version of the settings update function
     const debouncedUpdate = debounce(async (value: number) => {
-      // @ts-expect-error - Settings type allows numeric values for slider keys
-      s[key] = value;
-      await setSettings(s);
-      const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-      if (tab?.id) browser.tabs.sendMessage(tab.id, { type: "udr:settings-updated" }).catch(() => {});
+      await commit({ [key]: value }, `Popup: ${key} slider`);
     }, 250); // 250ms debounce delay
 
     el.oninput = () => {
@@ -148,15 +294,14 @@ async function init() {
   }
 
   amoled.onchange = optimizer.onchange = detectDark.onchange = async () => {
-    s.amoled = amoled.checked;
-    s.optimizerEnabled = optimizer.checked;
-    s.detectDarkSites = detectDark.checked;
-    await setSettings(s);
-    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-    if (tab?.id) browser.tabs.sendMessage(tab.id, { type: "udr:settings-updated" }).catch(() => {});
+    await commit({
+      amoled: amoled.checked,
+      optimizerEnabled: optimizer.checked,
+      detectDarkSites: detectDark.checked
+    }, "Popup: feature toggles");
   };
 
-  bindRange(brightness, "brightness", briV, 50, 120);
+  bindRange(brightness, "brightness", briV, 50, SETTING_RANGES.brightness.max);
   bindRange(contrast, "contrast", conV, 50, 200);
   bindRange(sepia, "sepia", sepV, 0, 100);
   bindRange(grayscale, "grayscale", gryV, 0, 100);
@@ -192,7 +337,7 @@ async function init() {
     bluV.textContent = `${defaultValues.blueShift}%`;
 
     // Update slider backgrounds
-    updateSliderBackground(brightness, defaultValues.brightness, 50, 120);
+    updateSliderBackground(brightness, defaultValues.brightness, 50, SETTING_RANGES.brightness.max);
     updateSliderBackground(contrast, defaultValues.contrast, 50, 200);
     updateSliderBackground(sepia, defaultValues.sepia, 0, 100);
     updateSliderBackground(grayscale, defaultValues.grayscale, 0, 100);
@@ -207,8 +352,49 @@ async function init() {
 
     // Send message to active tab to apply new settings immediately
     const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-    if (tab?.id) browser.tabs.sendMessage(tab.id, { type: "udr:settings-updated" }).catch(() => {});
+    if (tab?.id) sendToTab(tab.id, "udr:settings-updated").catch(() => {});
+  });
+
+  // Save Profile button handler: capture what the controls currently show
+  $("#saveProfile").addEventListener("click", async () => {
+    const name = prompt("Name for this profile (e.g. Reading, Night AMOLED, Docs):")?.trim();
+    if (!name) return;
+
+    if (s.profiles[name] && !confirm(`A profile named "${name}" already exists. Overwrite it?`)) {
+      return;
+    }
+
+    const profile: ThemeProfile = {
+      mode: view().mode,
+      amoled: amoled.checked,
+      brightness: Number(brightness.value),
+      contrast: Number(contrast.value),
+      sepia: Number(sepia.value),
+      grayscale: Number(grayscale.value),
+      blueShift: Number(blueShift.value)
+    };
+    s.profiles[name] = profile;
+    await setSettings(s, `Popup: saved profile "${name}"`);
+    await reflectStorageStatus();
+    alert(`Saved profile "${name}". Assign it to sites in "More options".`);
+  });
+
+  const snoozeTarget = $("#snoozeTarget") as HTMLSelectElement;
+  const siteKey = activeTabUrl ? siteKeyFromUrl(activeTabUrl) : null;
+  if (!siteKey) {
+    // Nothing to pause per site on about:, file: and similar pages
+    (snoozeTarget.querySelector('option[value="site"]') as HTMLOptionElement).disabled = true;
+    snoozeTarget.value = "global";
+  }
+  $$("[data-snooze]").forEach((btn) => {
+    btn.addEventListener("click", async () => {
+      const duration = (btn as HTMLElement).dataset.snooze as SnoozeDuration;
+      const target = snoozeTarget.value === "global" ? "global" : siteKey;
+      if (target) await snooze(target, snoozeUntil(duration));
+    });
   });
+  await reflectSnooze();
+  onSnoozesChanged(() => reflectSnooze());
 
   // Add Active Site button handler
   $("#addActiveSite").addEventListener("click", async () => {
@@ -229,7 +415,11 @@ async function init() {
       return;
     }
 
-    const origin = originFromUrl(activeTabUrl);
+    const origin = siteKeyFromUrl(activeTabUrl);
+    if (!origin) {
+      alert("Cannot add an override for this page: its address has no host.");
+      return;
+    }
     
     // Check if already exists
     if (s.perSite[origin]) {
@@ -238,7 +428,8 @@ async function init() {
     }
 
     s.perSite[origin] = {};
-    await setSettings(s);
+    await setSettings(s, `Popup: added ${origin}`);
+    await reflectStorageStatus();
     alert(`Added ${origin} to per-site overrides. Open "More options" to configure it.`);
   });
 }
@@ -1,35 +1,71 @@
-// src/types/settings.d.ts
-export type Mode = "photon-inverter" | "dom-walker" | "chroma-semantic";
-export interface Schedule {
-  enabled: boolean;
-  start: string; // "22:00"
-  end: string;   // "07:00"
-}
-export interface SiteOverride {
-  enabled?: boolean;
-  exclude?: boolean;
-  override?: Partial<Settings>;
-  forceDarkMode?: boolean; // Force UltraDark even if site is detected as dark
-}
-export interface Settings {
-  enabled: boolean;
-  mode: Mode;
-  amoled: boolean;
-  brightness: number; // 0..100 (%)
-  contrast: number;   // 50..200 (%)
-  sepia: number;      // 0..100 (%)
-  grayscale: number;  // 0..100 (%)
-  blueShift: number;  // 0..100 (%) -> hue rotation scaled internally
-  optimizerEnabled: boolean;
-  detectDarkSites: boolean; // Auto-detect if sites are already dark
-  perSite: Record<string, SiteOverride>;
-  excludeRegex: string[];
-  schedule: Schedule;
-}
-export interface OptimizerSample {
-  fg: string;
-  bg: string;
-}
-export interface OptimizerResult {
-  suggestedContrast: number; // 50..200
+// src/types/settings.d.ts
+export type Mode = "photon-inverter" | "dom-walker" | "chroma-semantic";
+/** "fixed" uses the clock `windows`, "solar" uses sunset/sunrise at `solar`'s location */
+export type ScheduleKind = "fixed" | "solar";
+export interface SolarSchedule {
+  latitude: number;      // -90..90
+  longitude: number;     // -180..180 (east positive)
+  city: string;          // Name from the bundled city list, "" for custom coordinates
+  sunsetOffset: number;  // -180..180 minutes added to sunset (negative = earlier)
+  sunriseOffset: number; // -180..180 minutes added to sunrise
+}
+/** A clock window on some weekdays; an end at or before the start runs into the next day */
+export interface ScheduleWindow {
+  days: number[]; // 0 (Sunday) .. 6 (Saturday), as Date#getDay(); the day the window starts
+  start: string;  // "22:00"
+  end: string;    // "07:00"
+}
+/** Gradual warmth/brightness change at the start and end of each scheduled night */
+export interface ScheduleRamp {
+  enabled: boolean;
+  minutes: number; // 5..120, length of the ramp after the theme turns on and before it turns off
+}
+export interface Schedule {
+  enabled: boolean;
+  kind: ScheduleKind;
+  windows: ScheduleWindow[];
+  solar: SolarSchedule;
+  ramp: ScheduleRamp;
+}
+/** A named, reusable combination of theme values */
+export interface ThemeProfile {
+  mode: Mode;
+  amoled: boolean;
+  brightness: number;
+  contrast: number;
+  sepia: number;
+  grayscale: number;
+  blueShift: number;
+}
+export interface SiteOverride {
+  enabled?: boolean;
+  exclude?: boolean;
+  profile?: string; // Name of a Settings.profiles entry, applied before `override`
+  override?: Partial<Settings>;
+  forceDarkMode?: boolean; // Force UltraDark even if site is detected as dark
+  excludeSelectors?: string[]; // CSS selectors of elements left unthemed ("Exclude this element")
+}
+export interface Settings {
+  schemaVersion: number; // bumped by src/utils/migrations.ts
+  enabled: boolean;
+  mode: Mode;
+  amoled: boolean;
+  brightness: number; // 0..120 (%)
+  contrast: number;   // 50..200 (%)
+  sepia: number;      // 0..100 (%)
+  grayscale: number;  // 0..100 (%)
+  blueShift: number;  // 0..100 (%) -> hue rotation scaled internally
+  optimizerEnabled: boolean;
+  detectDarkSites: boolean; // Auto-detect if sites are already dark
+  perSite: Record<string, SiteOverride>;
+  profiles: Record<string, ThemeProfile>; // keyed by profile name
+  excludeRegex: string[];
+  schedule: Schedule;
+}
+export interface OptimizerSample {
+  fg: string;
+  bg: string;
+}
+export interface OptimizerResult {
+  suggestedContrast: number; // 50..200
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+// src/utils/cities.ts
+
+/**
+ * Small offline city list for the solar schedule's location picker
+ * Coordinates are rounded to two decimals; that is well under a minute of
+ * sunrise/sunset difference.
+ */
+
+export interface City {
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const CITIES: readonly City[] = [
+  { name: "Amsterdam", country: "NL", latitude: 52.37, longitude: 4.9 },
+  { name: "Anchorage", country: "US", latitude: 61.22, longitude: -149.9 },
+  { name: "Athens", country: "GR", latitude: 37.98, longitude: 23.73 },
+  { name: "Auckland", country: "NZ", latitude: -36.85, longitude: 174.76 },
+  { name: "Bangkok", country: "TH", latitude: 13.76, longitude: 100.5 },
+  { name: "Beijing", country: "CN", latitude: 39.9, longitude: 116.41 },
+  { name: "Berlin", country: "DE", latitude: 52.52, longitude: 13.4 },
+  { name: "Bogotá", country: "CO", latitude: 4.71, longitude: -74.07 },
+  { name: "Buenos Aires", country: "AR", latitude: -34.6, longitude: -58.38 },
+  { name: "Cairo", country: "EG", latitude: 30.04, longitude: 31.24 },
+  { name: "Cape Town", country: "ZA", latitude: -33.92, longitude: 18.42 },
+  { name: "Chicago", country: "US", latitude: 41.88, longitude: -87.63 },
+  { name: "Delhi", country: "IN", latitude: 28.61, longitude: 77.21 },
+  { name: "Dubai", country: "AE", latitude: 25.2, longitude: 55.27 },
+  { name: "Dublin", country: "IE", latitude: 53.35, longitude: -6.26 },
+  { name: "Helsinki", country: "FI", latitude: 60.17, longitude: 24.94 },
+  { name: "Hong Kong", country: "HK", latitude: 22.32, longitude: 114.17 },
+  { name: "Istanbul", country: "TR", latitude: 41.01, longitude: 28.98 },
+  { name: "Jakarta", country: "ID", latitude: -6.21, longitude: 106.85 },
+  { name: "Johannesburg", country: "ZA", latitude: -26.2, longitude: 28.05 },
+  { name: "Lagos", country: "NG", latitude: 6.52, longitude: 3.38 },
+  { name: "Lisbon", country: "PT", latitude: 38.72, longitude: -9.14 },
+  { name: "London", country: "GB", latitude: 51.51, longitude: -0.13 },
+  { name: "Los Angeles", country: "US", latitude: 34.05, longitude: -118.24 },
+  { name: "Madrid", country: "ES", latitude: 40.42, longitude: -3.7 },
+  { name: "Mexico City", country: "MX", latitude: 19.43, longitude: -99.13 },
+  { name: "Moscow", country: "RU", latitude: 55.76, longitude: 37.62 },
+  { name: "Mumbai", country: "IN", latitude: 19.08, longitude: 72.88 },
+  { name: "Nairobi", country: "KE", latitude: -1.29, longitude: 36.82 },
+  { name: "New York", country: "US", latitude: 40.71, longitude: -74.01 },
+  { name: "Oslo", country: "NO", latitude: 59.91, longitude: 10.75 },
+  { name: "Paris", country: "FR", latitude: 48.86, longitude: 2.35 },
+  { name: "Reykjavík", country: "IS", latitude: 64.15, longitude: -21.94 },
+  { name: "Rome", country: "IT", latitude: 41.9, longitude: 12.5 },
+  { name: "San Francisco", country: "US", latitude: 37.77, longitude: -122.42 },
+  { name: "Santiago", country: "CL", latitude: -33.45, longitude: -70.67 },
+  { name: "São Paulo", country: "BR", latitude: -23.55, longitude: -46.63 },
+  { name: "Seoul", country: "KR", latitude: 37.57, longitude: 126.98 },
+  { name: "Singapore", country: "SG", latitude: 1.35, longitude: 103.82 },
+  { name: "Stockholm", country: "SE", latitude: 59.33, longitude: 18.07 },
+  { name: "Sydney", country: "AU", latitude: -33.87, longitude: 151.21 },
+  { name: "Tokyo", country: "JP", latitude: 35.68, longitude: 139.69 },
+  { name: "Toronto", country: "CA", latitude: 43.65, longitude: -79.38 },
+  { name: "Tromsø", country: "NO", latitude: 69.65, longitude: 18.96 },
+  { name: "Vancouver", country: "CA", latitude: 49.28, longitude: -123.12 },
+  { name: "Vienna", country: "AT", latitude: 48.21, longitude: 16.37 },
+  { name: "Warsaw", country: "PL", latitude: 52.23, longitude: 21.01 },
+  { name: "Zürich", country: "CH", latitude: 47.38, longitude: 8.54 }
+];
+
+export function findCity(name: string): City | undefined {
+  return CITIES.find((c) => c.name === name);
+}
@@ -0,0 +1,115 @@
+// src/utils/config-transfer.ts
+
+/**
+ * Import / export of the full UltraDark configuration as a JSON document
+ * Exports carry their own format version so older files can still be read
+ * after the settings schema moves on (settings go through migrations first).
+ */
+
+import type { Settings } from "../types/settings";
+import { migrateSettings } from "./migrations";
+import { validateSettings } from "./validation";
+
+export const EXPORT_FORMAT = "ultradark-config";
+export const EXPORT_VERSION = 1;
+
+export interface ConfigExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  settings: Settings;                  // storage.sync `settings`
+  local: { isDebugMode: boolean };     // storage.local flags
+}
+
+/** "replace" swaps the whole config; "merge" keeps global values and adds sites/profiles/patterns */
+export type ImportStrategy = "replace" | "merge";
+
+export interface ConfigDiff {
+  perSite: { added: string[]; changed: string[]; removed: string[] };
+  excludeRegex: { added: string[]; removed: string[] };
+}
+
+export class ConfigImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigImportError";
+  }
+}
+
+export function buildExport(settings: Settings, isDebugMode: boolean, now = new Date()): ConfigExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    settings,
+    local: { isDebugMode }
+  };
+}
+
+/**
+ * Parse and validate an exported document
+ * Throws ConfigImportError for malformed files and SettingsValidationError for bad settings
+ */
+export function parseImport(text: string): ConfigExport {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new ConfigImportError("File is not valid JSON");
+  }
+
+  if (typeof doc !== "object" || doc === null || (doc as { format?: unknown }).format !== EXPORT_FORMAT) {
+    throw new ConfigImportError("File is not an UltraDark configuration export");
+  }
+
+  const { version, exportedAt, settings, local } = doc as Record<string, unknown>;
+  if (typeof version !== "number" || version > EXPORT_VERSION) {
+    throw new ConfigImportError(`Unsupported export version: ${String(version)}`);
+  }
+
+  const { settings: migrated } = migrateSettings(settings);
+  const isDebugMode = typeof local === "object" && local !== null && (local as { isDebugMode?: unknown }).isDebugMode === true;
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: typeof exportedAt === "string" ? exportedAt : "",
+    settings: validateSettings(migrated),
+    local: { isDebugMode }
+  };
+}
+
+/** Compute the settings that result from importing `incoming` into `current` */
+export function applyImport(current: Settings, incoming: Settings, strategy: ImportStrategy): Settings {
+  if (strategy === "replace") return structuredClone(incoming);
+
+  const next = structuredClone(current);
+  // Profiles come along so merged site entries never reference a missing one
+  Object.assign(next.profiles, structuredClone(incoming.profiles));
+  Object.assign(next.perSite, structuredClone(incoming.perSite));
+  for (const pattern of incoming.excludeRegex) {
+    if (!next.excludeRegex.includes(pattern)) next.excludeRegex.push(pattern);
+  }
+  return next;
+}
+
+/** Describe which perSite entries and excludeRegex lines change between two configs */
+export function diffConfig(current: Settings, next: Settings): ConfigDiff {
+  const diff: ConfigDiff = {
+    perSite: { added: [], changed: [], removed: [] },
+    excludeRegex: { added: [], removed: [] }
+  };
+
+  for (const [origin, conf] of Object.entries(next.perSite)) {
+    if (!(origin in current.perSite)) diff.perSite.added.push(origin);
+    else if (JSON.stringify(conf) !== JSON.stringify(current.perSite[origin])) diff.perSite.changed.push(origin);
+  }
+  for (const origin of Object.keys(current.perSite)) {
+    if (!(origin in next.perSite)) diff.perSite.removed.push(origin);
+  }
+
+  diff.excludeRegex.added = next.excludeRegex.filter((p) => !current.excludeRegex.includes(p));
+  diff.excludeRegex.removed = current.excludeRegex.filter((p) => !next.excludeRegex.includes(p));
+
+  return diff;
+}
@@ -67,9 +67,10 @@ function parseColor(colorStr: string): { r: number; g: number; b: number } | nul
 
 /**
  * Calculate average background luminance of the page
- * Samples body and 5 random deeply-nested divs as per consultant spec
+ * Samples body and 5 random deeply-nested divs as per consultant spec; with
+ * `sampleDivs: false` only body, or html when body is transparent
  */
-export function getAverageBackgroundLuminance(): number {
+export function getAverageBackgroundLuminance({ sampleDivs = true }: { sampleDivs?: boolean } = {}): number {
   const body = document.body;
   const html = document.documentElement;
 
@@ -86,6 +87,14 @@ export function getAverageBackgroundLuminance(): number {
     debugSync('[Dark Detection] Body background:', bodyBg, '-> RGB:', bodyColor, '-> Luminance:', luminance);
   }
 
+  if (!sampleDivs) {
+    const htmlBg = getComputedStyle(html).backgroundColor;
+    const htmlColor = samples.length || htmlBg === 'rgba(0, 0, 0, 0)' || htmlBg === 'transparent' ? null : parseColor(htmlBg);
+    if (htmlColor) samples.push(rgbToLuminance(htmlColor.r, htmlColor.g, htmlColor.b));
+    debugSync('[Dark Detection] Root background luminance:', samples[0] ?? 'none (transparent)');
+    return samples[0] ?? 1;
+  }
+
   // Sample 5 random deeply-nested div elements (consultant spec requirement)
   const allDivs = Array.from(document.querySelectorAll('div'));
   
@@ -224,11 +233,41 @@ export function hasExplicitDarkThemeMarkers(): boolean {
   return false;
 }
 
+/** Attributes of <html>/<body> that hasExplicitDarkThemeMarkers() reads, plus inline styles */
+export const THEME_ATTRIBUTES = ["class", "data-theme", "theme", "style"];
+
 /**
- * Detect if the current page is already using a dark theme
- * Returns true if the site appears to be dark
+ * Everything dark detection looks at on <html>, <body> and the color-scheme
+ * meta tag, as one string: when it changes the site may have switched theme
  */
-export function isAlreadyDarkTheme(): boolean {
+export function siteThemeSignature(): string {
+  const html = document.documentElement;
+  const body = document.body;
+  const meta = document.querySelector('meta[name="color-scheme"]');
+  const parts = [meta?.getAttribute("content") ?? ""];
+  for (const el of [html, body]) {
+    if (!el) continue;
+    const style = getComputedStyle(el);
+    parts.push(el.className, el.getAttribute("data-theme") ?? "", el.getAttribute("theme") ?? "", style.colorScheme, style.backgroundColor);
+  }
+  return parts.join("|");
+}
+
+/** Why a page counts as dark, if it does */
+export interface DarkThemeVerdict {
+  dark: boolean;
+  reason: "markers" | "luminance" | "color-scheme" | null;
+  /** Average background luminance (0..1); not measured when explicit markers decide */
+  luminance?: number;
+}
+
+/**
+ * Detect if the current page is already using a dark theme, and why
+ * Pass `sampleDivs: false` while our own theme is on the page: elements it
+ * restyled inline would read as the site's, so only <html>/<body> are measured
+ * (with our styles lifted, see content/own-styles.ts).
+ */
+export function darkThemeVerdict({ sampleDivs = true }: { sampleDivs?: boolean } = {}): DarkThemeVerdict {
   // Threshold: luminance below 0.2 is considered dark (consultant spec)
   const DARK_THRESHOLD = 0.2;
 
@@ -237,10 +276,10 @@ export function isAlreadyDarkTheme(): boolean {
   // Check for explicit markers first (fastest and most reliable)
   if (hasExplicitDarkThemeMarkers()) {
     debugSync('[Dark Detection] Result: DARK (explicit markers found)');
-    return true;
+    return { dark: true, reason: "markers" };
   }
 
-  const avgLuminance = getAverageBackgroundLuminance();
+  const avgLuminance = getAverageBackgroundLuminance({ sampleDivs });
   const declaresColorScheme = siteDeclaresColorScheme();
 
   debugSync('[Dark Detection] Average luminance:', avgLuminance, '(threshold:', DARK_THRESHOLD + ')');
@@ -248,15 +287,23 @@ export function isAlreadyDarkTheme(): boolean {
   // If average luminance is dark, consider it a dark site
   if (avgLuminance < DARK_THRESHOLD) {
     debugSync('[Dark Detection] Result: DARK (luminance below threshold)');
-    return true;
+    return { dark: true, reason: "luminance", luminance: avgLuminance };
   }
 
   // If site declares color scheme support and prefers-color-scheme is dark
   if (declaresColorScheme) {
     debugSync('[Dark Detection] Result: DARK (declares color scheme)');
-    return true;
+    return { dark: true, reason: "color-scheme", luminance: avgLuminance };
   }
 
   debugSync('[Dark Detection] Result: LIGHT (no dark indicators found)');
-  return false;
+  return { dark: false, reason: null, luminance: avgLuminance };
+}
+
+/**
+ * Detect if the current page is already using a dark theme
+ * Returns true if the site appears to be dark
+ */
+export function isAlreadyDarkTheme(): boolean {
+  return darkThemeVerdict().dark;
 }
@@ -1,7 +1,11 @@
 // src/utils/defaults.ts
-import type { Settings } from "../types/settings";
+import type { Mode, Settings, ThemeProfile } from "../types/settings";
+
+/** Version of the stored Settings shape; see src/utils/migrations.ts */
+export const SCHEMA_VERSION = 5;
 
 export const DEFAULTS: Settings = {
+  schemaVersion: SCHEMA_VERSION,
   enabled: true,
   mode: "photon-inverter",
   amoled: false,
@@ -13,9 +17,51 @@ export const DEFAULTS: Settings = {
   optimizerEnabled: true,
   detectDarkSites: true, // Auto-detect dark sites by default
   perSite: {},
+  profiles: {},
   excludeRegex: [],
-  schedule: { enabled: false, start: "21:00", end: "07:00" }
+  schedule: {
+    enabled: false,
+    kind: "fixed",
+    windows: [{ days: [0, 1, 2, 3, 4, 5, 6], start: "21:00", end: "07:00" }],
+    solar: { latitude: 51.51, longitude: -0.13, city: "London", sunsetOffset: 0, sunriseOffset: 0 },
+    ramp: { enabled: false, minutes: 30 }
+  }
 };
 
+export const MODES: readonly Mode[] = ["photon-inverter", "dom-walker", "chroma-semantic"];
+
+/** Settings captured by a named ThemeProfile */
+export const PROFILE_KEYS: readonly (keyof ThemeProfile)[] = [
+  "mode",
+  "amoled",
+  "brightness",
+  "contrast",
+  "sepia",
+  "grayscale",
+  "blueShift"
+];
+
+/** Inclusive bounds for numeric settings (see settings.d.ts) */
+export const SETTING_RANGES = {
+  brightness: { min: 0, max: 120 },
+  contrast: { min: 50, max: 200 },
+  sepia: { min: 0, max: 100 },
+  grayscale: { min: 0, max: 100 },
+  blueShift: { min: 0, max: 100 }
+} as const;
+
+/** Inclusive bounds for the solar schedule's numeric fields */
+export const SOLAR_RANGES = {
+  latitude: { min: -90, max: 90 },
+  longitude: { min: -180, max: 180 },
+  sunsetOffset: { min: -180, max: 180 },
+  sunriseOffset: { min: -180, max: 180 }
+} as const;
+
+/** Inclusive bounds for the schedule ramp's length (minutes) */
+export const RAMP_RANGES = {
+  minutes: { min: 5, max: 120 }
+} as const;
+
 export const STYLE_TAG_ID = "udr-style";
 export const DATA_ATTR_APPLIED = "data-udr-applied";
@@ -0,0 +1,79 @@
+// src/utils/effective-settings.ts
+
+/**
+ * Resolve the settings that actually apply to a URL
+ * Every perSite rule matching the URL (see site-rules.ts) is layered from the
+ * least to the most specific, so the most specific rule wins field by field.
+ * Each rule contributes, in order: its named profile → its `override` values →
+ * its `enabled` / `exclude` / `forceDarkMode` flags. Global settings sit underneath.
+ * `excludeSelectors` are the exception: every matching rule's selectors apply.
+ */
+
+import type { Settings, SiteOverride, ThemeProfile } from "../types/settings";
+import { urlExcluded } from "./regex";
+import { matchingSiteRules } from "./site-rules";
+
+export interface EffectiveSettings {
+  use: Settings;
+  excluded: boolean;
+  /** The matching rules' flags merged (profile/override are already folded into `use`) */
+  site: SiteOverride;
+  /** Keys of the perSite rules that matched, least specific first */
+  rules: string[];
+}
+
+/** Look up a profile by name, ignoring inherited object properties */
+export function profileByName(settings: Settings, name: string | undefined): ThemeProfile | undefined {
+  if (!name || !Object.prototype.hasOwnProperty.call(settings.profiles, name)) return undefined;
+  return settings.profiles[name];
+}
+
+export function effectiveSettingsFor(url: string, base: Settings): EffectiveSettings {
+  const rules = matchingSiteRules(url, Object.keys(base.perSite));
+  let merged: Settings = { ...base };
+  let site: SiteOverride = {};
+
+  for (const rule of rules) {
+    const per = base.perSite[rule.key];
+    merged = {
+      ...merged,
+      ...(profileByName(base, per.profile) || {}),
+      ...(per.override || {})
+    };
+    const excludeSelectors = [...(site.excludeSelectors || []), ...(per.excludeSelectors || [])];
+    site = { ...site, ...per };
+    if (excludeSelectors.length) site.excludeSelectors = [...new Set(excludeSelectors)];
+    if (typeof per.enabled === "boolean") merged.enabled = per.enabled;
+  }
+
+  const excluded = site.exclude === true || urlExcluded(url, base.excludeRegex);
+  return { use: merged, excluded, site, rules: rules.map((r) => r.key) };
+}
+
+/** Settings fields that change how a page is themed */
+export const THEME_KEYS: readonly (keyof Settings)[] = [
+  "enabled",
+  "mode",
+  "amoled",
+  "brightness",
+  "contrast",
+  "sepia",
+  "grayscale",
+  "blueShift",
+  "optimizerEnabled",
+  "detectDarkSites"
+];
+
+/** Layer a session-only tab override (see background/tab-overrides.ts) on top of a resolution */
+export function withTabOverride(eff: EffectiveSettings, override: Partial<Settings>): EffectiveSettings {
+  if (!Object.keys(override).length) return eff;
+  return { ...eff, use: { ...eff.use, ...override } };
+}
+
+/** True if two resolutions would theme a page identically (used to skip needless re-ticks) */
+export function sameEffectiveSettings(a: EffectiveSettings, b: EffectiveSettings): boolean {
+  if (a.excluded !== b.excluded) return false;
+  if ((a.site.forceDarkMode ?? false) !== (b.site.forceDarkMode ?? false)) return false;
+  if ((a.site.excludeSelectors || []).join("\n") !== (b.site.excludeSelectors || []).join("\n")) return false;
+  return THEME_KEYS.every((k) => a.use[k] === b.use[k]);
+}
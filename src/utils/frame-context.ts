@@ -0,0 +1,54 @@
+// src/utils/frame-context.ts
+
+/**
+ * How a child frame (iframe) is themed
+ * Content scripts run in every frame, but only the top frame decides: child
+ * frames resolve settings for the top page's URL and theme only while the top
+ * frame is themed. The background answers from the top frame's last reported
+ * status and forwards each new one to the tab's frames.
+ *
+ * The photon inverter's filter on the top page also inverts every iframe it
+ * draws, so child frames under it must not invert again: a light frame only
+ * re-inverts its media (the parent's media rules can't reach into it) and a
+ * dark frame inverts itself once more to cancel the parent's inversion.
+ *
+ * Element exclusions are the exception to following the top page: their
+ * selectors are paths in one document, so each frame reads them from its own
+ * URL's rules, which is where "Exclude this element" stores them.
+ */
+
+import type { Settings } from "../types/settings";
+import { effectiveSettingsFor } from "./effective-settings";
+import type { TabStatus } from "./tab-status";
+
+export interface FrameContext {
+  /** URL of the top-level page, whose site rules apply to the frame */
+  url: string;
+  themed: boolean;
+  /** The top page is themed by the photon inverter */
+  inverted: boolean;
+}
+
+export type FrameTreatment = "none" | "theme" | "reinvert-media" | "cancel-inversion";
+
+/** What child frames of the page at `url` should follow, or null before the top frame has decided */
+export function frameContextFor(url: string, status: TabStatus | undefined): FrameContext | null {
+  if (!status) return null;
+  return { url, themed: status.themed, inverted: status.themed && status.mode === "photon-inverter" };
+}
+
+export function sameFrameContext(a: FrameContext | null, b: FrameContext | null): boolean {
+  return a?.url === b?.url && a?.themed === b?.themed && a?.inverted === b?.inverted;
+}
+
+/** What a child frame does about its own page, which is `dark` on its own */
+export function frameTreatment(context: FrameContext | null, dark: boolean): FrameTreatment {
+  if (!context?.themed) return "none";
+  if (context.inverted) return dark ? "cancel-inversion" : "reinvert-media";
+  return dark ? "none" : "theme";
+}
+
+/** Selectors of elements left unthemed in the document at `documentUrl` (a frame's own URL, not its top page's) */
+export function excludeSelectorsFor(documentUrl: string, s: Settings): string[] {
+  return effectiveSettingsFor(documentUrl, s).site.excludeSelectors ?? [];
+}
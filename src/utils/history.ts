@@ -0,0 +1,59 @@
+// src/utils/history.ts
+
+/**
+ * Bounded ring of previous settings kept in storage.local
+ * Every write through setSettings() records the settings it replaced, tagged
+ * with where the change came from, so the options page can undo any of them.
+ */
+
+import type { Settings } from "../types/settings";
+
+const HISTORY_KEY = "settingsHistory";
+/** Oldest snapshots are dropped beyond this many */
+export const HISTORY_LIMIT = 25;
+
+export interface SettingsSnapshot {
+  id: string;
+  /** When the change that replaced these settings was made (ms since epoch) */
+  at: number;
+  /** What made that change, e.g. "Popup: brightness slider" or "Scheduler" */
+  source: string;
+  settings: Settings;
+}
+
+/** Newest first */
+export async function getHistory(): Promise<SettingsSnapshot[]> {
+  const result = await browser.storage.local.get(HISTORY_KEY);
+  const list = result[HISTORY_KEY];
+  return Array.isArray(list) ? (list as SettingsSnapshot[]) : [];
+}
+
+export async function findSnapshot(id: string): Promise<SettingsSnapshot | undefined> {
+  return (await getHistory()).find((snap) => snap.id === id);
+}
+
+/** Push `previous` onto the ring, trimming it to HISTORY_LIMIT */
+export async function recordSnapshot(previous: Settings, source: string, now = Date.now()): Promise<SettingsSnapshot> {
+  const snap: SettingsSnapshot = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    at: now,
+    source,
+    settings: structuredClone(previous)
+  };
+  const list = [snap, ...(await getHistory())].slice(0, HISTORY_LIMIT);
+  await browser.storage.local.set({ [HISTORY_KEY]: list });
+  return snap;
+}
+
+export async function clearHistory(): Promise<void> {
+  await browser.storage.local.remove(HISTORY_KEY);
+}
+
+/** Call `listener` whenever the ring changes (in any context); returns an unsubscribe function */
+export function onHistoryChanged(listener: () => void): () => void {
+  const handler = (changes: Record<string, unknown>, areaName: string) => {
+    if (areaName === "local" && HISTORY_KEY in changes) listener();
+  };
+  browser.storage.onChanged.addListener(handler);
+  return () => browser.storage.onChanged.removeListener(handler);
+}
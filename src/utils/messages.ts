@@ -0,0 +1,173 @@
+// src/utils/messages.ts
+
+/**
+ * Message protocol between the background, content scripts, popup and options page
+ * Every message is `{ type, v, ...body }` with `v` = PROTOCOL_VERSION. MessageMap
+ * pairs each type with its body and reply, so senders get typed responses and
+ * each context registers one dispatcher with listen(). Incoming messages are
+ * checked at runtime: unknown types, other protocol versions and malformed
+ * bodies are rejected with a ProtocolError instead of being ignored.
+ */
+
+import type { Mode, Settings } from "../types/settings";
+import { isTabStatusReason, type TabStatus } from "./tab-status";
+import type { FrameContext } from "./frame-context";
+import type { ValidationIssue } from "./validation";
+import { MODES } from "./defaults";
+import { warn } from "./logger";
+
+/** Bump when a message changes shape; both ends of a message always ship together */
+export const PROTOCOL_VERSION = 1;
+
+/** Reply to a settings write: validation problems come back instead of being thrown */
+export type SaveResult = { ok: true } | { ok: false; errors: ValidationIssue[] };
+
+type EmptyBody = Record<string, never>;
+
+export interface MessageMap {
+  // → background
+  "udr:get-settings": { body: EmptyBody; response: Settings };
+  /** `payload` is validated by setSettings()/updateSettings() */
+  "udr:set-settings": { body: { payload: unknown }; response: SaveResult };
+  "udr:update-settings": { body: { payload: unknown }; response: SaveResult };
+  "udr:tab-status": { body: { status: TabStatus }; response: void };
+  /** `tabId` only from the popup; a content script gets its own tab's override */
+  "udr:get-tab-override": { body: { tabId?: number }; response: Partial<Settings> };
+  "udr:set-tab-override": {
+    body: { tabId: number; override: Partial<Settings> };
+    response: { ok: true; override: Partial<Settings> } | { ok: false; errors: ValidationIssue[] };
+  };
+  /** From a child frame: how the top frame of its tab is themed (null until it has decided) */
+  "udr:get-frame-context": { body: EmptyBody; response: FrameContext | null };
+  // → content scripts
+  "udr:settings-updated": { body: EmptyBody; response: void };
+  "udr:tab-override": { body: { override: Partial<Settings> }; response: void };
+  "udr:element-selector": { body: { targetElementId: number }; response: string | null };
+  /** The tab's URL changed without a page load (history.pushState and friends) */
+  "udr:location-changed": { body: EmptyBody; response: void };
+  /** The top frame decided again; child frames follow */
+  "udr:frame-context": { body: { context: FrameContext }; response: void };
+  // → background and content scripts
+  "udr:debug-mode-changed": { body: { enabled: boolean }; response: void };
+}
+
+export type MessageType = keyof MessageMap;
+export type MessageBody<T extends MessageType> = MessageMap[T]["body"];
+export type MessageResponse<T extends MessageType> = MessageMap[T]["response"];
+export type Message<T extends MessageType = MessageType> = {
+  [K in T]: { type: K; v: number } & MessageBody<K>;
+}[T];
+
+/** Lets messages without a body be sent without one */
+type BodyArgs<T extends MessageType> = EmptyBody extends MessageBody<T> ? [body?: MessageBody<T>] : [body: MessageBody<T>];
+
+/** The parts of runtime.MessageSender the handlers use */
+export interface MessageSender {
+  tab?: { id?: number; url?: string };
+  frameId?: number;
+  url?: string;
+}
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const isTabId = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+/** Per type: what's wrong with a message's body, or null if it is well-formed */
+const BODY_CHECKS: { [K in MessageType]: (msg: Record<string, unknown>) => string | null } = {
+  "udr:get-settings": () => null,
+  "udr:set-settings": (m) => (isRecord(m.payload) ? null : "payload must be a settings object"),
+  "udr:update-settings": (m) => (isRecord(m.payload) ? null : "payload must be a settings object"),
+  "udr:tab-status": (m) =>
+    isRecord(m.status) && typeof m.status.themed === "boolean" && isTabStatusReason(m.status.reason)
+      && (m.status.mode === undefined || MODES.includes(m.status.mode as Mode))
+      ? null
+      : "status must be a tab status",
+  "udr:get-tab-override": (m) => (m.tabId === undefined || isTabId(m.tabId) ? null : "tabId must be a tab id"),
+  "udr:set-tab-override": (m) =>
+    !isTabId(m.tabId) ? "tabId must be a tab id" : isRecord(m.override) ? null : "override must be an object",
+  "udr:get-frame-context": () => null,
+  "udr:settings-updated": () => null,
+  "udr:tab-override": (m) => (isRecord(m.override) ? null : "override must be an object"),
+  "udr:element-selector": (m) => (typeof m.targetElementId === "number" ? null : "targetElementId must be a number"),
+  "udr:location-changed": () => null,
+  "udr:frame-context": (m) =>
+    isRecord(m.context) && typeof m.context.url === "string" && typeof m.context.themed === "boolean" && typeof m.context.inverted === "boolean"
+      ? null
+      : "context must be a frame context",
+  "udr:debug-mode-changed": (m) => (typeof m.enabled === "boolean" ? null : "enabled must be a boolean")
+};
+
+export function isMessageType(value: unknown): value is MessageType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(BODY_CHECKS, value);
+}
+
+/** Build a versioned message */
+export function message<T extends MessageType>(type: T, ...[body]: BodyArgs<T>): Message<T> {
+  return { ...body, type, v: PROTOCOL_VERSION } as Message<T>;
+}
+
+/** Check an incoming message; throws ProtocolError if it isn't one this build understands */
+export function parseMessage(input: unknown): Message {
+  if (!isRecord(input)) throw new ProtocolError("message must be an object");
+  if (!isMessageType(input.type)) throw new ProtocolError(`unknown message type ${JSON.stringify(input.type)}`);
+  if (input.v !== PROTOCOL_VERSION) {
+    throw new ProtocolError(`${input.type}: protocol version ${JSON.stringify(input.v)}, expected ${PROTOCOL_VERSION}`);
+  }
+  const problem = BODY_CHECKS[input.type](input);
+  if (problem) throw new ProtocolError(`${input.type}: ${problem}`);
+  return input as unknown as Message;
+}
+
+/** Send to the background (and any open extension page) */
+export function sendToBackground<T extends MessageType>(type: T, ...body: BodyArgs<T>): Promise<MessageResponse<T>> {
+  return browser.runtime.sendMessage(message(type, ...body));
+}
+
+/** Send to the content script of a tab (its top frame unless `frameId` is given) */
+export function sendToTab<T extends MessageType>(
+  tabId: number,
+  type: T,
+  ...[body, options]: [...BodyArgs<T>, { frameId?: number }?]
+): Promise<MessageResponse<T>> {
+  return browser.tabs.sendMessage(tabId, message(type, ...([body] as BodyArgs<T>)), ...(options ? [options] : []));
+}
+
+export type MessageHandlers = {
+  [K in MessageType]?: (msg: Message<K>, sender: MessageSender) => MessageResponse<K> | Promise<MessageResponse<K>>;
+};
+
+/**
+ * A runtime.onMessage listener that routes messages to `handlers`
+ * Valid messages without a handler here are left for other listeners (the
+ * popup's messages to the background also reach an open options page).
+ */
+export function createDispatcher(context: string, handlers: MessageHandlers) {
+  return (input: unknown, sender: MessageSender): Promise<unknown> | undefined => {
+    let msg: Message;
+    try {
+      msg = parseMessage(input);
+    } catch (err) {
+      warn(`Rejected message in ${context}:`, (err as Error).message);
+      return Promise.reject(err);
+    }
+    const handler = handlers[msg.type] as ((m: Message, s: MessageSender) => unknown) | undefined;
+    if (!handler) return undefined;
+    return Promise.resolve(handler(msg, sender));
+  };
+}
+
+/** Register this context's dispatcher; returns an unsubscribe function */
+export function listen(context: string, handlers: MessageHandlers): () => void {
+  const dispatcher = createDispatcher(context, handlers);
+  browser.runtime.onMessage.addListener(dispatcher);
+  return () => browser.runtime.onMessage.removeListener(dispatcher);
+}
@@ -0,0 +1,219 @@
+// src/utils/migrations.ts
+
+/**
+ * Stored settings migrations for UltraDark Reader
+ * Each step upgrades raw `storage.sync` data from `version - 1` to `version`.
+ * Steps must be pure and tolerant of partially written or hand-edited data.
+ */
+
+import { SCHEMA_VERSION } from "./defaults";
+
+export type RawSettings = Record<string, unknown>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(raw: RawSettings): RawSettings;
+}
+
+/** Mode names used by builds before the three-algorithm rewrite */
+const LEGACY_MODES: Record<string, string> = {
+  architect: "photon-inverter",
+  surgeon: "dom-walker"
+};
+
+/** Top-level keys renamed since the first public builds */
+const RENAMED_KEYS: Record<string, string> = {
+  optimizer: "optimizerEnabled",
+  detectDark: "detectDarkSites"
+};
+
+/** Per-site keys renamed since the first public builds */
+const RENAMED_SITE_KEYS: Record<string, string> = {
+  forceDark: "forceDarkMode"
+};
+
+function isRecord(value: unknown): value is RawSettings {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mapPerSite(raw: RawSettings, fn: (entry: RawSettings) => RawSettings): RawSettings {
+  if (!isRecord(raw.perSite)) return raw;
+  const perSite: RawSettings = {};
+  for (const [origin, entry] of Object.entries(raw.perSite)) {
+    perSite[origin] = isRecord(entry) ? fn(entry) : entry;
+  }
+  return { ...raw, perSite };
+}
+
+function renameKeys(obj: RawSettings, renames: Record<string, string>): RawSettings {
+  const out = { ...obj };
+  for (const [from, to] of Object.entries(renames)) {
+    if (!(from in out)) continue;
+    // Never clobber a value already written under the new name
+    if (!(to in out)) out[to] = out[from];
+    delete out[from];
+  }
+  return out;
+}
+
+/** Combine two entries for the same site; `b` wins conflicting flags and override values */
+function mergeSiteEntries(a: RawSettings, b: RawSettings): RawSettings {
+  const merged: RawSettings = { ...a, ...b };
+  if (isRecord(a.override) || isRecord(b.override)) {
+    merged.override = { ...(isRecord(a.override) ? a.override : {}), ...(isRecord(b.override) ? b.override : {}) };
+  }
+  return merged;
+}
+
+/**
+ * Site key canonicalisation as of schema v4, frozen here so the v4 step keeps
+ * rewriting old data the same way when site-rules.ts changes: URL-parser host
+ * (lowercase, punycode, default port dropped), origins lose a leading `www.`,
+ * a bare trailing `/` is dropped. Returns null for keys that aren't rules.
+ */
+function v4CanonicalKey(key: string): string | null {
+  const asciiHost = (host: string, scheme: string): string | null => {
+    try {
+      return new URL(`${scheme}//${host}`).host || null;
+    } catch {
+      return null;
+    }
+  };
+  const trimmed = key.trim();
+  const origin = trimmed.match(/^([a-z][a-z0-9+.-]*):\/\/([^/*?#\s]+)(\/[^?#\s]*)?$/i);
+  const wild = origin ? null : trimmed.match(/^\*\.([^/*?#:\s]+)(\/[^?#\s]*)?$/i);
+  let prefix: string;
+  let path: string | undefined;
+  if (origin) {
+    const scheme = `${origin[1].toLowerCase()}:`;
+    const ascii = asciiHost(origin[2], scheme);
+    if (!ascii) return null;
+    const host = ascii.startsWith("www.") && ascii.indexOf(".", 4) > 0 ? ascii.slice(4) : ascii;
+    prefix = `${scheme}//${host}`;
+    path = origin[3];
+  } else if (wild) {
+    const host = asciiHost(wild[1], "https:");
+    if (!host || !host.includes(".")) return null;
+    prefix = `*.${host}`;
+    path = wild[2];
+  } else {
+    return null;
+  }
+  return prefix + (path && path !== "/" ? path : "");
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Map legacy architect/surgeon modes to photon-inverter/dom-walker",
+    migrate(raw) {
+      const upgradeMode = (obj: RawSettings): RawSettings =>
+        typeof obj.mode === "string" && obj.mode in LEGACY_MODES ? { ...obj, mode: LEGACY_MODES[obj.mode] } : obj;
+
+      return mapPerSite(upgradeMode(raw), (entry) =>
+        isRecord(entry.override) ? { ...entry, override: upgradeMode(entry.override) } : entry
+      );
+    }
+  },
+  {
+    version: 2,
+    description: "Fill in missing or malformed nested perSite, excludeRegex and schedule fields",
+    migrate(raw) {
+      const out = { ...raw };
+
+      out.perSite = isRecord(out.perSite) ? out.perSite : {};
+      for (const [origin, entry] of Object.entries(out.perSite as RawSettings)) {
+        if (!isRecord(entry)) (out.perSite as RawSettings)[origin] = {};
+      }
+
+      if (typeof out.excludeRegex === "string") {
+        // Very early builds stored the options textarea verbatim
+        out.excludeRegex = out.excludeRegex.split("\n").map((x) => x.trim()).filter(Boolean);
+      } else if (!Array.isArray(out.excludeRegex)) {
+        out.excludeRegex = [];
+      }
+
+      const schedule = isRecord(out.schedule) ? out.schedule : {};
+      out.schedule = {
+        enabled: typeof schedule.enabled === "boolean" ? schedule.enabled : false,
+        start: typeof schedule.start === "string" ? schedule.start : "21:00",
+        end: typeof schedule.end === "string" ? schedule.end : "07:00"
+      };
+
+      return out;
+    }
+  },
+  {
+    version: 3,
+    description: "Rename optimizer/detectDark/forceDark to their current key names",
+    migrate(raw) {
+      return mapPerSite(renameKeys(raw, RENAMED_KEYS), (entry) => renameKeys(entry, RENAMED_SITE_KEYS));
+    }
+  },
+  {
+    version: 4,
+    description: "Rewrite perSite keys to canonical site keys (punycode host, no www., explicit port), merging collisions",
+    migrate(raw) {
+      if (!isRecord(raw.perSite)) return raw;
+      const perSite: RawSettings = {};
+      // Entries already under their canonical key go last so they win collisions
+      const entries = Object.entries(raw.perSite).sort(
+        ([a], [b]) => Number(v4CanonicalKey(a) === a) - Number(v4CanonicalKey(b) === b)
+      );
+      for (const [key, entry] of entries) {
+        const canonical = v4CanonicalKey(key) ?? key; // Unparseable keys are left for validation to report
+        const existing = perSite[canonical];
+        perSite[canonical] = isRecord(existing) && isRecord(entry) ? mergeSiteEntries(existing, entry) : entry;
+      }
+      return { ...raw, perSite };
+    }
+  },
+  {
+    version: 5,
+    description: "Turn the single schedule start/end into an every-day entry of schedule.windows",
+    migrate(raw) {
+      if (!isRecord(raw.schedule) || "windows" in raw.schedule) return raw;
+      const { start, end, ...schedule } = raw.schedule;
+      return {
+        ...raw,
+        schedule: {
+          ...schedule,
+          windows: [{
+            days: [0, 1, 2, 3, 4, 5, 6],
+            start: typeof start === "string" ? start : "21:00",
+            end: typeof end === "string" ? end : "07:00"
+          }]
+        }
+      };
+    }
+  }
+];
+
+/** Reads the schema version of raw stored data; anything unversioned is version 0 */
+export function storedVersion(raw: RawSettings): number {
+  return typeof raw.schemaVersion === "number" && Number.isFinite(raw.schemaVersion) ? raw.schemaVersion : 0;
+}
+
+/**
+ * Upgrade raw stored settings to SCHEMA_VERSION, one step at a time
+ * Returns the upgraded data and whether any step ran
+ */
+export function migrateSettings(raw: unknown, migrations: Migration[] = MIGRATIONS): { settings: RawSettings; changed: boolean } {
+  let settings: RawSettings = isRecord(raw) ? raw : {};
+  const from = storedVersion(settings);
+  let changed = false;
+
+  for (const step of migrations) {
+    if (step.version <= from) continue;
+    settings = { ...step.migrate(settings), schemaVersion: step.version };
+    changed = true;
+  }
+
+  if (storedVersion(settings) < SCHEMA_VERSION) {
+    settings = { ...settings, schemaVersion: SCHEMA_VERSION };
+    changed = true;
+  }
+
+  return { settings, changed };
+}
@@ -0,0 +1,75 @@
+// src/utils/paint-cache.ts
+
+/**
+ * Last theming decision per site, for a flash-free first paint
+ * At document_start a content script reads only this small storage.local
+ * item and paints the page's background straight away, instead of waiting
+ * for the settings and dark-site detection. The full tick then reconciles
+ * and stores what it decided for next time. Capped at PAINT_CACHE_LIMIT
+ * sites, least recently seen dropped first.
+ */
+
+import type { Mode, Settings } from "../types/settings";
+import { siteKeyFromUrl } from "./site-rules";
+
+const PAINT_CACHE_KEY = "paintCache";
+export const PAINT_CACHE_LIMIT = 300;
+/** A site's `at` is refreshed at most this often, so ordinary page loads don't write */
+const TOUCH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Backgrounds painted before the theme is applied */
+export const PAINT_BACKGROUND = "#1a1a1a";
+export const PAINT_BACKGROUND_AMOLED = "#000000";
+
+export type ThemedPaint = { themed: true; mode: Mode; background: string };
+export type PaintDecision = { themed: false } | ThemedPaint;
+
+type PaintCache = Record<string, PaintDecision & { at: number }>;
+
+/** How to paint a page before it is themed with `use` */
+export function themedPaint(use: Settings): ThemedPaint {
+  return { themed: true, mode: use.mode, background: use.amoled ? PAINT_BACKGROUND_AMOLED : PAINT_BACKGROUND };
+}
+
+async function readCache(): Promise<PaintCache> {
+  const result = await browser.storage.local.get(PAINT_CACHE_KEY);
+  const cache = result[PAINT_CACHE_KEY];
+  return cache && typeof cache === "object" ? (cache as PaintCache) : {};
+}
+
+/** The decision last stored for `url`'s site, or null if it hasn't been seen */
+export async function getPaintDecision(url: string): Promise<PaintDecision | null> {
+  const site = siteKeyFromUrl(url);
+  if (!site) return null;
+  const entry = (await readCache())[site];
+  if (!entry) return null;
+  return entry.themed ? { themed: true, mode: entry.mode, background: entry.background } : { themed: false };
+}
+
+function sameDecision(a: PaintDecision, b: PaintDecision): boolean {
+  if (!a.themed || !b.themed) return a.themed === b.themed;
+  return a.mode === b.mode && a.background === b.background;
+}
+
+/** Store `decision` for `url`'s site; skips writes that change nothing */
+export async function rememberPaintDecision(url: string, decision: PaintDecision, now = Date.now()): Promise<void> {
+  const site = siteKeyFromUrl(url);
+  if (!site) return;
+  const cache = await readCache();
+  const current = cache[site];
+  if (current && sameDecision(current, decision) && now - current.at < TOUCH_INTERVAL_MS) return;
+
+  cache[site] = { ...decision, at: now };
+  const sites = Object.keys(cache);
+  if (sites.length > PAINT_CACHE_LIMIT) {
+    sites
+      .sort((a, b) => cache[a].at - cache[b].at)
+      .slice(0, sites.length - PAINT_CACHE_LIMIT)
+      .forEach((key) => delete cache[key]);
+  }
+  await browser.storage.local.set({ [PAINT_CACHE_KEY]: cache });
+}
+
+export async function clearPaintCache(): Promise<void> {
+  await browser.storage.local.remove(PAINT_CACHE_KEY);
+}
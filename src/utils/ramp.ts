@@ -0,0 +1,68 @@
+// src/utils/ramp.ts
+
+/**
+ * Circadian ramp state shared between the scheduler and content scripts
+ * While a schedule ramp runs, the scheduler writes its progress to
+ * storage.local once per step; tabs blend their night values towards the
+ * day values with it. Nothing is written to storage.sync, so the ramp
+ * doesn't flood the settings history or sync quota.
+ */
+
+import type { Settings } from "../types/settings";
+
+const RAMP_KEY = "scheduleRamp";
+
+/** Fields the ramp moves, and where they start from in the day */
+export const RAMP_DAY_VALUES = {
+  blueShift: 0,
+  sepia: 0,
+  brightness: 100
+} as const;
+
+type RampField = keyof typeof RAMP_DAY_VALUES;
+
+export interface RampState {
+  /** 0 = day values, 1 = the configured night values */
+  progress: number;
+}
+
+export async function getRampState(): Promise<RampState | null> {
+  const result = await browser.storage.local.get(RAMP_KEY);
+  const state = result[RAMP_KEY] as RampState | undefined;
+  return typeof state?.progress === "number" ? state : null;
+}
+
+/** Store the ramp's progress (null once it is over); skips writes that change nothing */
+export async function setRampProgress(progress: number | null): Promise<void> {
+  const current = await getRampState();
+  if (progress === null) {
+    if (current) await browser.storage.local.remove(RAMP_KEY);
+    return;
+  }
+  if (current?.progress === progress) return;
+  const state: RampState = { progress };
+  await browser.storage.local.set({ [RAMP_KEY]: state });
+}
+
+/** `settings` with the ramped fields moved `progress` of the way from day to night values */
+export function applyRamp<T extends Pick<Settings, RampField>>(settings: T, ramp: RampState | null): T {
+  if (!ramp) return settings;
+  const p = Math.min(1, Math.max(0, ramp.progress));
+  const out = { ...settings };
+  for (const key of Object.keys(RAMP_DAY_VALUES) as RampField[]) {
+    const day = RAMP_DAY_VALUES[key];
+    out[key] = Math.round(day + (settings[key] - day) * p) as T[RampField];
+  }
+  return out;
+}
+
+/** Call `listener` whenever the ramp state changes (in any context); returns an unsubscribe function */
+export function onRampChanged(listener: (ramp: RampState | null) => void): () => void {
+  const handler = (changes: Record<string, { newValue?: unknown }>, areaName: string) => {
+    if (areaName !== "local" || !(RAMP_KEY in changes)) return;
+    const next = changes[RAMP_KEY].newValue as RampState | undefined;
+    listener(typeof next?.progress === "number" ? next : null);
+  };
+  browser.storage.onChanged.addListener(handler);
+  return () => browser.storage.onChanged.removeListener(handler);
+}
@@ -19,3 +19,11 @@ export function urlExcluded(url: string, patterns: string[]) {
   const str = url;
   return list.some((re) => re.test(str));
 }
+
+/** The first pattern (as written) that excludes `url`, or null */
+export function matchingExclusion(url: string, patterns: string[]): string | null {
+  for (const p of patterns) {
+    if (compileRegexList([p]).some((re) => re.test(url))) return p;
+  }
+  return null;
+}
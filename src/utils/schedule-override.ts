@@ -0,0 +1,54 @@
+// src/utils/schedule-override.ts
+
+/**
+ * Manual override of the schedule, kept in storage.local
+ * When the user flips the global switch against the schedule, the scheduler
+ * leaves it alone until the schedule's next transition (or until resumed).
+ */
+
+import type { Schedule } from "../types/settings";
+import { nextTransition, scheduleActive } from "./schedule";
+
+const OVERRIDE_KEY = "scheduleOverride";
+
+export interface ScheduleOverride {
+  /** The global `enabled` value the user chose */
+  enabled: boolean;
+  /** When the schedule takes over again (ms since epoch); null if it never changes by itself */
+  until: number | null;
+  since: number;
+}
+
+/** The override in force at `now`, if any; expired overrides are removed */
+export async function getScheduleOverride(now = Date.now()): Promise<ScheduleOverride | null> {
+  const result = await browser.storage.local.get(OVERRIDE_KEY);
+  const override = result[OVERRIDE_KEY] as ScheduleOverride | undefined;
+  if (!override) return null;
+  if (override.until !== null && now >= override.until) {
+    await clearScheduleOverride();
+    return null;
+  }
+  return override;
+}
+
+/**
+ * Record that the user set the global switch to `enabled` by hand
+ * Choosing what the schedule wants anyway cancels any override instead.
+ */
+export async function holdScheduleOverride(schedule: Schedule, enabled: boolean, now = new Date()): Promise<ScheduleOverride | null> {
+  if (!schedule.enabled || scheduleActive(schedule, now) === enabled) {
+    await clearScheduleOverride();
+    return null;
+  }
+  const override: ScheduleOverride = {
+    enabled,
+    until: nextTransition(schedule, now)?.getTime() ?? null,
+    since: now.getTime()
+  };
+  await browser.storage.local.set({ [OVERRIDE_KEY]: override });
+  return override;
+}
+
+export async function clearScheduleOverride(): Promise<void> {
+  await browser.storage.local.remove(OVERRIDE_KEY);
+}
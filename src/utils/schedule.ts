@@ -0,0 +1,145 @@
+// src/utils/schedule.ts
+
+/**
+ * Schedule time maths: whether a schedule is on at a moment, and when it next flips
+ * Pure functions of the schedule and a Date, in the browser's local time zone.
+ * Clock times are resolved with Date#setHours, so a time that falls in a DST gap
+ * (02:30 on a spring-forward night) moves to after the gap, and a time that happens
+ * twice (autumn) means its first occurrence, in every function here alike.
+ */
+
+import type { Schedule, ScheduleWindow } from "../types/settings";
+import { isAfterDark, solarEvents } from "./solar";
+
+/** Every weekday, Sunday (0) to Saturday (6) */
+export const ALL_DAYS: readonly number[] = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Returns true if now is within [start, end) for local time on one of `days`.
+ * Overnight windows (end at or before start, e.g. 21:00 -> 07:00) belong to the
+ * day they start on, so Friday's 21:00 -> 07:00 also covers early Saturday.
+ */
+export function withinWindow(start: string, end: string, now = new Date(), days: readonly number[] = ALL_DAYS): boolean {
+  const [sh, sm] = start.split(":").map(Number);
+  const [eh, em] = end.split(":").map(Number);
+  const s = new Date(now), e = new Date(now);
+  s.setHours(sh, sm || 0, 0, 0);
+  e.setHours(eh, em || 0, 0, 0);
+  const today = now.getDay();
+  const yesterday = (today + 6) % 7;
+
+  if (e <= s) {
+    // overnight window: the part after midnight belongs to yesterday's window
+    return (now >= s && days.includes(today)) || (now < e && days.includes(yesterday));
+  }
+  return now >= s && now < e && days.includes(today);
+}
+
+/** True if any window covers now */
+export function withinAnyWindow(windows: readonly ScheduleWindow[], now = new Date()): boolean {
+  return windows.some((w) => withinWindow(w.start, w.end, now, w.days));
+}
+
+/** Returns true if the schedule wants the theme on at `now` (fixed window or sunset → sunrise) */
+export function scheduleActive(schedule: Schedule, now = new Date()): boolean {
+  if (schedule.kind === "solar") {
+    const { latitude, longitude, sunsetOffset, sunriseOffset } = schedule.solar;
+    return isAfterDark(now, latitude, longitude, { sunsetOffset, sunriseOffset });
+  }
+  return withinAnyWindow(schedule.windows, now);
+}
+
+/** `date`'s calendar day shifted by `days`, at hh:mm local time */
+function atLocalTime(date: Date, days: number, time: string): Date {
+  const [h, m] = time.split(":").map(Number);
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  d.setHours(h, m || 0, 0, 0);
+  return d;
+}
+
+/** Instants where some window starts or ends, from yesterday to a week ahead */
+function windowBoundaries(windows: readonly ScheduleWindow[], now: Date): Date[] {
+  const out: Date[] = [];
+  for (let offset = -1; offset <= 8; offset++) {
+    for (const w of windows) {
+      const start = atLocalTime(now, offset, w.start);
+      if (!w.days.includes(start.getDay())) continue;
+      let end = atLocalTime(now, offset, w.end);
+      if (end <= start) end = atLocalTime(now, offset + 1, w.end);
+      out.push(start, end);
+    }
+  }
+  return out;
+}
+
+/** Instants where the schedule may flip, from about a week before `now` to a week after */
+function transitionCandidates(schedule: Schedule, now: Date): Date[] {
+  const candidates = schedule.kind === "solar"
+    ? solarEvents(now, schedule.solar.latitude, schedule.solar.longitude, schedule.solar, 8).map((e) => e.at)
+    : windowBoundaries(schedule.windows, now);
+  return candidates.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * The next moment after `now` at which scheduleActive() changes value
+ * Returns null when nothing changes in the coming week (no windows, windows
+ * covering every minute, or a polar day/night).
+ */
+export function nextTransition(schedule: Schedule, now = new Date()): Date | null {
+  const current = scheduleActive(schedule, now);
+  const upcoming = transitionCandidates(schedule, now).filter((t) => t > now);
+  return upcoming.find((t) => scheduleActive(schedule, t) !== current) ?? null;
+}
+
+/** The latest moment at or before `now` at which scheduleActive() took its current value */
+export function previousTransition(schedule: Schedule, now = new Date()): Date | null {
+  const current = scheduleActive(schedule, now);
+  const past = transitionCandidates(schedule, now).filter((t) => t <= now).reverse();
+  return past.find((t) => scheduleActive(schedule, t) === current && scheduleActive(schedule, new Date(t.getTime() - 1)) !== current) ?? null;
+}
+
+/** The ramp moves in steps of this size rather than continuously */
+export const RAMP_STEP_MS = 60 * 1000;
+
+/**
+ * How far into the night the schedule's ramp is at `now`: 0 = day values, 1 = night values
+ * Rises over `ramp.minutes` after the theme turns on and falls over the same time
+ * before it turns off, in whole steps. Null outside the ramps (including all day).
+ */
+export function rampProgress(schedule: Schedule, now = new Date()): number | null {
+  if (!schedule.enabled || !schedule.ramp.enabled || !scheduleActive(schedule, now)) return null;
+  const length = schedule.ramp.minutes * 60000;
+  const since = now.getTime() - (previousTransition(schedule, now)?.getTime() ?? -Infinity);
+  const until = (nextTransition(schedule, now)?.getTime() ?? Infinity) - now.getTime();
+  const edge = Math.min(since, until);
+  if (edge > length) return null;
+  const steps = Math.max(1, Math.round(length / RAMP_STEP_MS));
+  return Math.floor((edge / length) * steps) / steps;
+}
+
+/** Re-check a solar schedule this often while the sun doesn't rise or set (polar day/night) */
+const POLAR_RECHECK_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When the scheduler should next wake up for `schedule` (ms since epoch), or null for never
+ * That is the next transition, or earlier for the next ramp step or the start of the
+ * ramp before it; a solar schedule without a transition is re-checked daily because
+ * the polar period ends by itself.
+ */
+export function nextScheduleCheck(schedule: Schedule, now = new Date()): number | null {
+  if (!schedule.enabled) return null;
+  const next = nextTransition(schedule, now);
+  const checks: number[] = [];
+  if (next) checks.push(next.getTime());
+  else if (schedule.kind === "solar") checks.push(now.getTime() + POLAR_RECHECK_MS);
+
+  if (schedule.ramp.enabled) {
+    if (rampProgress(schedule, now) !== null) checks.push(now.getTime() + RAMP_STEP_MS);
+    // The ramp back to day values starts before the theme turns off
+    if (next && scheduleActive(schedule, now)) {
+      const rampStart = next.getTime() - schedule.ramp.minutes * 60000;
+      if (rampStart > now.getTime()) checks.push(rampStart);
+    }
+  }
+  return checks.length ? Math.min(...checks) : null;
+}
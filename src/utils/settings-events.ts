@@ -0,0 +1,64 @@
+// src/utils/settings-events.ts
+
+/**
+ * Settings change subscription built on browser.storage.onChanged
+ * Every context that writes settings goes through storage, so listening here
+ * reaches all tabs, the popup and the options page without manual broadcasts.
+ */
+
+import type { Settings } from "../types/settings";
+import { getSettings } from "./storage";
+import { debugSync } from "./logger";
+
+export type SettingsListener = (next: Settings, prev: Settings | null) => void;
+
+type StorageChanges = Record<string, { oldValue?: unknown; newValue?: unknown }>;
+
+/** True if a storage.onChanged event touches stored settings (sync shards or the local fallback) */
+export function isSettingsChange(changes: StorageChanges, areaName: string): boolean {
+  const keys = Object.keys(changes);
+  if (areaName === "sync") return keys.some((k) => k === "settings" || k.startsWith("settings."));
+  if (areaName === "local") return keys.some((k) => k === "settings" || k === "syncQuotaExceeded");
+  return false;
+}
+
+/**
+ * Call `listener` with the reassembled settings whenever they change
+ * A single setSettings() can fire several storage events (shards, stale shard
+ * removal, fallback cleanup); listeners only run when the result differs.
+ * Returns an unsubscribe function.
+ */
+export function onSettingsChanged(listener: SettingsListener): () => void {
+  let prev: Settings | null = null;
+  let prevJson = "";
+  let queue = Promise.resolve();
+
+  getSettings()
+    .then((s) => {
+      if (!prev) {
+        prev = s;
+        prevJson = JSON.stringify(s);
+      }
+    })
+    .catch(() => {});
+
+  const handler = (changes: StorageChanges, areaName: string) => {
+    if (!isSettingsChange(changes, areaName)) return;
+
+    // Serialise reads so listeners see changes in the order they were written
+    queue = queue.then(async () => {
+      const next = await getSettings();
+      const json = JSON.stringify(next);
+      if (json === prevJson) return;
+
+      const before = prev;
+      prev = next;
+      prevJson = json;
+      debugSync('Settings changed in storage area:', areaName);
+      listener(next, before);
+    }).catch(() => {});
+  };
+
+  browser.storage.onChanged.addListener(handler);
+  return () => browser.storage.onChanged.removeListener(handler);
+}
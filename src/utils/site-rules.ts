@@ -0,0 +1,188 @@
+// src/utils/site-rules.ts
+
+/**
+ * `perSite` rule keys and URL matching
+ * A key is one of:
+ *   - an origin:          `https://example.com`, `http://localhost:8080` (compared via canonicalHost)
+ *   - a domain wildcard:  `*.example.com` (the domain and every subdomain, any scheme)
+ *   - either of the above followed by a path:
+ *       prefix  `https://docs.example.com/api`   (`/api`, `/api/...`, not `/apiary`)
+ *       glob    `*.example.com/docs/*.html`       (`*` matches any run of characters;
+ *                                                   `\*` is a literal asterisk, see escapeGlob)
+ * Several rules can match one URL; see compareSiteRules for which one is more specific.
+ */
+
+export type SiteRuleKind = "origin" | "wildcard" | "path";
+
+export interface SiteRule {
+  key: string;
+  kind: SiteRuleKind;
+  /** e.g. "https:"; null for wildcard hosts, which match any scheme */
+  scheme: string | null;
+  /** canonicalHost() for origins (keeps a non-default port); for wildcards the ASCII domain after `*.` */
+  host: string;
+  wildcard: boolean;
+  /** Path pattern starting with "/", or null for host-wide rules */
+  path: string | null;
+}
+
+/** Host as the URL parser normalises it: lowercase, IDN → punycode, default port dropped */
+function asciiHost(host: string, scheme: string): string | null {
+  try {
+    const u = new URL(`${scheme}//${host}`);
+    return u.host || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Canonical form of a site's host, as used in perSite keys
+ * On top of the URL parser's normalisation a leading `www.` is dropped, so
+ * `www.example.com` and `example.com` share one rule. Non-default ports stay.
+ */
+export function canonicalHost(host: string, scheme = "https:"): string | null {
+  const ascii = asciiHost(host, scheme);
+  if (!ascii) return null;
+  return ascii.startsWith("www.") && ascii.indexOf(".", 4) > 0 ? ascii.slice(4) : ascii;
+}
+
+/**
+ * The perSite key for the site a URL belongs to, e.g. `http://localhost:3000`
+ * Returns null for URLs without a host (about:, data:, file: ...).
+ */
+export function siteKeyFromUrl(url: string): string | null {
+  try {
+    const u = new URL(url);
+    const host = u.host ? canonicalHost(u.host, u.protocol) : null;
+    return host ? `${u.protocol}//${host}` : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Rewrite a rule key to its canonical spelling; null if it is not a valid rule */
+export function canonicalSiteKey(key: string): string | null {
+  const rule = parseSiteRule(key);
+  if (!rule) return null;
+  const host = rule.wildcard ? `*.${rule.host}` : `${rule.scheme}//${rule.host}`;
+  return host + (rule.path ?? "");
+}
+
+const ORIGIN_RE = /^([a-z][a-z0-9+.-]*):\/\/([^/*?#\s]+)(\/[^?#\s]*)?$/i;
+const WILDCARD_RE = /^\*\.([^/*?#:\s]+)(\/[^?#\s]*)?$/i;
+
+/** Parse a perSite key; returns null if it is not a valid rule */
+export function parseSiteRule(key: string): SiteRule | null {
+  const trimmed = key.trim();
+  let scheme: string | null = null;
+  let host: string;
+  let wildcard = false;
+  let path: string | undefined;
+
+  const origin = trimmed.match(ORIGIN_RE);
+  const wild = origin ? null : trimmed.match(WILDCARD_RE);
+  if (origin) {
+    scheme = `${origin[1].toLowerCase()}:`;
+    const canonical = canonicalHost(origin[2], scheme);
+    if (!canonical) return null;
+    host = canonical;
+    path = origin[3];
+  } else if (wild) {
+    wildcard = true;
+    // No `www.` stripping here: `*.www.example.com` must not widen to the whole domain
+    const ascii = asciiHost(wild[1], "https:");
+    if (!ascii) return null;
+    host = ascii;
+    path = wild[2];
+    if (!host.includes(".")) return null; // `*.com` would theme half the web
+  } else {
+    return null;
+  }
+
+  // A bare trailing slash is the same rule as the host itself
+  const rulePath = path && path !== "/" ? path : null;
+  return {
+    key,
+    kind: rulePath ? "path" : wildcard ? "wildcard" : "origin",
+    scheme,
+    host,
+    wildcard,
+    path: rulePath
+  };
+}
+
+/** Escape a literal path so `*` in it isn't read as a wildcard */
+export function escapeGlob(path: string): string {
+  return path.replace(/\*/g, "\\*");
+}
+
+/** The literal runs of a path pattern between its unescaped `*` wildcards */
+function globParts(pattern: string): string[] {
+  return pattern.split(/(?<!\\)\*/).map((part) => part.replace(/\\\*/g, "*"));
+}
+
+function globToRegExp(parts: string[]): RegExp {
+  const source = parts.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+function pathMatches(pattern: string, pathname: string): boolean {
+  const parts = globParts(pattern);
+  if (parts.length > 1) return globToRegExp(parts).test(pathname);
+  const [literal] = parts;
+  if (literal.endsWith("/")) return pathname.startsWith(literal);
+  return pathname === literal || pathname.startsWith(`${literal}/`);
+}
+
+export function siteRuleMatches(rule: SiteRule, url: URL): boolean {
+  if (rule.wildcard) {
+    const hostname = url.hostname.toLowerCase();
+    if (hostname !== rule.host && !hostname.endsWith(`.${rule.host}`)) return false;
+  } else if (url.protocol !== rule.scheme || canonicalHost(url.host, url.protocol) !== rule.host) {
+    return false;
+  }
+  return rule.path === null || pathMatches(rule.path, url.pathname);
+}
+
+/** Characters of a path pattern that are not wildcards */
+function literalLength(path: string | null): number {
+  return path ? globParts(path).join("").length : 0;
+}
+
+/**
+ * Order two matching rules from least to most specific (negative if `a` is less specific)
+ *   1. a rule with a path beats a host-wide rule
+ *   2. between path rules, the longer literal path wins, and a prefix beats a glob of equal length
+ *   3. an exact origin beats a wildcard; between wildcards the longer domain wins
+ */
+export function compareSiteRules(a: SiteRule, b: SiteRule): number {
+  const score = (r: SiteRule) => [
+    r.path === null ? 0 : 1,
+    literalLength(r.path),
+    r.path && globParts(r.path).length > 1 ? 0 : 1,
+    r.wildcard ? 0 : 1,
+    r.host.split(".").length
+  ];
+  const sa = score(a), sb = score(b);
+  for (let i = 0; i < sa.length; i++) {
+    if (sa[i] !== sb[i]) return sa[i] - sb[i];
+  }
+  return a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+}
+
+/** Rules among `keys` that match `url`, least specific first */
+export function matchingSiteRules(url: string, keys: Iterable<string>): SiteRule[] {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return [];
+  }
+  const out: SiteRule[] = [];
+  for (const key of keys) {
+    const rule = parseSiteRule(key);
+    if (rule && siteRuleMatches(rule, parsed)) out.push(rule);
+  }
+  return out.sort(compareSiteRules);
+}
@@ -0,0 +1,122 @@
+// src/utils/snooze.ts
+
+/**
+ * Temporary pauses ("snoozes"), globally or for one site
+ * Kept in storage.local with their end time, so they survive background
+ * restarts and stay on this device. Content scripts skip theming while a
+ * snooze covers their page; the background expires snoozes with an alarm,
+ * and the storage change resumes the affected tabs.
+ */
+
+import { siteKeyFromUrl } from "./site-rules";
+
+const SNOOZE_KEY = "snoozes";
+
+export interface Snoozes {
+  /** End of the global pause (ms since epoch), null if none */
+  global: number | null;
+  /** End of each site's pause, keyed by siteKeyFromUrl() */
+  sites: Record<string, number>;
+}
+
+export type SnoozeDuration = "15m" | "1h" | "tomorrow";
+
+/** "global" or a site key */
+export type SnoozeTarget = string;
+
+export const SNOOZE_DURATIONS: readonly { id: SnoozeDuration; label: string }[] = [
+  { id: "15m", label: "for 15 minutes" },
+  { id: "1h", label: "for 1 hour" },
+  { id: "tomorrow", label: "until tomorrow" }
+];
+
+function emptySnoozes(): Snoozes {
+  return { global: null, sites: {} };
+}
+
+/** When a pause of `duration` started at `now` ends; "tomorrow" means the next local midnight */
+export function snoozeUntil(duration: SnoozeDuration, now = new Date()): number {
+  if (duration === "15m") return now.getTime() + 15 * 60000;
+  if (duration === "1h") return now.getTime() + 60 * 60000;
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+}
+
+export async function getSnoozes(): Promise<Snoozes> {
+  const result = await browser.storage.local.get(SNOOZE_KEY);
+  const stored = result[SNOOZE_KEY] as Partial<Snoozes> | undefined;
+  return { ...emptySnoozes(), ...stored, sites: { ...stored?.sites } };
+}
+
+async function writeSnoozes(snoozes: Snoozes): Promise<void> {
+  if (snoozes.global === null && !Object.keys(snoozes.sites).length) {
+    await browser.storage.local.remove(SNOOZE_KEY);
+  } else {
+    await browser.storage.local.set({ [SNOOZE_KEY]: snoozes });
+  }
+}
+
+export async function snooze(target: SnoozeTarget, until: number): Promise<void> {
+  const snoozes = await getSnoozes();
+  if (target === "global") snoozes.global = until;
+  else snoozes.sites[target] = until;
+  await writeSnoozes(snoozes);
+}
+
+export async function resumeSnooze(target: SnoozeTarget): Promise<void> {
+  const snoozes = await getSnoozes();
+  if (target === "global") snoozes.global = null;
+  else delete snoozes.sites[target];
+  await writeSnoozes(snoozes);
+}
+
+/** Drop snoozes that ended at or before `now`; returns what is left */
+export async function expireSnoozes(now = Date.now()): Promise<Snoozes> {
+  const snoozes = await getSnoozes();
+  const next: Snoozes = { global: snoozes.global !== null && snoozes.global > now ? snoozes.global : null, sites: {} };
+  for (const [key, until] of Object.entries(snoozes.sites)) {
+    if (until > now) next.sites[key] = until;
+  }
+  if (JSON.stringify(next) !== JSON.stringify(snoozes)) await writeSnoozes(next);
+  return next;
+}
+
+/** The pause covering `url` at `now` (the global one first), or null */
+export function activeSnooze(url: string, snoozes: Snoozes, now = Date.now()): { target: SnoozeTarget; until: number } | null {
+  if (snoozes.global !== null && snoozes.global > now) return { target: "global", until: snoozes.global };
+  const key = siteKeyFromUrl(url);
+  const until = key ? snoozes.sites[key] : undefined;
+  return key && until !== undefined && until > now ? { target: key, until } : null;
+}
+
+/** True if `a` and `b` pause `url` the same way (ignoring the clock, so expiry counts as a change) */
+export function sameSnoozesFor(url: string, a: Snoozes, b: Snoozes): boolean {
+  const key = siteKeyFromUrl(url);
+  return a.global === b.global && (key ? a.sites[key] === b.sites[key] : true);
+}
+
+/** Earliest end among `snoozes`, or null if there are none */
+export function nextSnoozeEnd(snoozes: Snoozes): number | null {
+  const ends = [...(snoozes.global !== null ? [snoozes.global] : []), ...Object.values(snoozes.sites)];
+  return ends.length ? Math.min(...ends) : null;
+}
+
+/** Time left as "14:05" (m:ss) or "2:14:05" (h:mm:ss) */
+export function formatRemaining(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+/** Call `listener` whenever snoozes change (in any context); returns an unsubscribe function */
+export function onSnoozesChanged(listener: (next: Snoozes, prev: Snoozes) => void): () => void {
+  const handler = (changes: Record<string, { oldValue?: unknown; newValue?: unknown }>, areaName: string) => {
+    if (areaName !== "local" || !(SNOOZE_KEY in changes)) return;
+    const read = (v: unknown): Snoozes => ({ ...emptySnoozes(), ...(v as Partial<Snoozes> | undefined) });
+    listener(read(changes[SNOOZE_KEY].newValue), read(changes[SNOOZE_KEY].oldValue));
+  };
+  browser.storage.onChanged.addListener(handler);
+  return () => browser.storage.onChanged.removeListener(handler);
+}
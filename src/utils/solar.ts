@@ -0,0 +1,107 @@
+// src/utils/solar.ts
+
+/**
+ * Sunrise / sunset computed locally from coordinates (no network lookups)
+ * Uses the NOAA-style sunrise equation, accurate to a minute or two away from
+ * the poles. Everything works on absolute instants, so DST only matters when
+ * times are formatted for display.
+ */
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86400000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+/** Sun's centre this far below the horizon counts as rise/set (refraction + disc radius) */
+const HORIZON = RAD * -0.833;
+
+export type PolarState = "day" | "night";
+
+export interface SunTimes {
+  /** null when the sun doesn't rise or set on this solar day */
+  sunrise: Date | null;
+  sunset: Date | null;
+  /** Set when the sun stays above ("day") or below ("night") the horizon all day */
+  polar: PolarState | null;
+}
+
+export interface SolarEvent {
+  kind: "sunrise" | "sunset";
+  at: Date;
+}
+
+function toDays(date: Date): number {
+  return date.valueOf() / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+function fromJulian(j: number): Date {
+  return new Date((j + 0.5 - J1970) * DAY_MS);
+}
+
+/** Solar day number nearest to `date` at longitude west `lw` (radians) */
+function solarCycle(date: Date, lw: number): number {
+  return Math.round(toDays(date) - J0 - lw / (2 * Math.PI));
+}
+
+function timesForCycle(n: number, latitude: number, longitude: number): SunTimes {
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+
+  const ds = J0 + lw / (2 * Math.PI) + n;
+  const M = RAD * (357.5291 + 0.98560028 * ds);
+  const C = RAD * (1.9148 * Math.sin(M) + 0.02 * Math.sin(2 * M) + 0.0003 * Math.sin(3 * M));
+  const L = M + C + RAD * 102.9372 + Math.PI;
+  const dec = Math.asin(Math.sin(OBLIQUITY) * Math.sin(L));
+  const transit = (offset: number) => J2000 + offset + 0.0053 * Math.sin(M) - 0.0069 * Math.sin(2 * L);
+
+  const cosH = (Math.sin(HORIZON) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+  if (cosH > 1) return { sunrise: null, sunset: null, polar: "night" };
+  if (cosH < -1) return { sunrise: null, sunset: null, polar: "day" };
+
+  const noon = transit(ds);
+  const set = transit(J0 + (Math.acos(cosH) + lw) / (2 * Math.PI) + n);
+  return { sunrise: fromJulian(noon - (set - noon)), sunset: fromJulian(set), polar: null };
+}
+
+/** Sunrise and sunset for the solar day (local solar noon) nearest to `date` */
+export function sunTimes(date: Date, latitude: number, longitude: number): SunTimes {
+  return timesForCycle(solarCycle(date, RAD * -longitude), latitude, longitude);
+}
+
+/**
+ * Sunrise/sunset events from `days` solar days before `around` to `days` after, oldest first
+ * Offsets are in minutes and move each event (e.g. sunsetOffset -30 starts 30 min before sunset).
+ */
+export function solarEvents(
+  around: Date,
+  latitude: number,
+  longitude: number,
+  offsets: { sunsetOffset?: number; sunriseOffset?: number } = {},
+  days = 1
+): SolarEvent[] {
+  const n0 = solarCycle(around, RAD * -longitude);
+  const events: SolarEvent[] = [];
+  for (let n = n0 - days; n <= n0 + days; n++) {
+    const t = timesForCycle(n, latitude, longitude);
+    if (t.sunrise) events.push({ kind: "sunrise", at: new Date(t.sunrise.getTime() + (offsets.sunriseOffset ?? 0) * 60000) });
+    if (t.sunset) events.push({ kind: "sunset", at: new Date(t.sunset.getTime() + (offsets.sunsetOffset ?? 0) * 60000) });
+  }
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * True between (offset) sunset and the following (offset) sunrise
+ * During polar night it is always dark, during polar day never; around the
+ * edges of those periods the last rise/set event decides.
+ */
+export function isAfterDark(
+  now: Date,
+  latitude: number,
+  longitude: number,
+  offsets: { sunsetOffset?: number; sunriseOffset?: number } = {}
+): boolean {
+  const past = solarEvents(now, latitude, longitude, offsets).filter((e) => e.at <= now);
+  if (past.length) return past[past.length - 1].kind === "sunset";
+  return sunTimes(now, latitude, longitude).polar === "night";
+}
@@ -1,34 +1,217 @@
 // src/utils/storage.ts
 import type { Settings } from "../types/settings";
-import { DEFAULTS } from "./defaults";
+import { migrateSettings } from "./migrations";
+import { normalizeSettings, validateSettings, validateSettingsPatch } from "./validation";
+import { findSnapshot, recordSnapshot } from "./history";
+import { debugSync, warn } from "./logger";
 
 const KEY = "settings";
+/** storage.local flag set while settings live in the local fallback */
+const QUOTA_FLAG_KEY = "syncQuotaExceeded";
 
-export async function getSettings(): Promise<Settings> {
-  const got = await browser.storage.sync.get(KEY);
-  const merged = { ...DEFAULTS, ...(got[KEY] || {}) } as Settings;
-  // Defensive: ensure nested objects exist
-  merged.perSite ||= {};
-  merged.excludeRegex ||= [];
-  merged.schedule ||= { enabled: false, start: "21:00", end: "07:00" };
-  return merged;
+/**
+ * Large lists are split across `settings.perSite.<n>` / `settings.excludeRegex.<n>`
+ * items so no single storage.sync item exceeds the per-item quota (8 KB in Firefox).
+ */
+const SHARDED_FIELDS = ["perSite", "excludeRegex"] as const;
+type ShardedField = (typeof SHARDED_FIELDS)[number];
+const SHARD_KEY_RE = /^settings\.(perSite|excludeRegex)\.\d+$/;
+/** Leave headroom under QUOTA_BYTES_PER_ITEM for the key and serialisation differences */
+export const SHARD_BUDGET_BYTES = 7000;
+
+type ShardCounts = Record<ShardedField, number>;
+type StoredCore = Record<string, unknown> & { shards?: ShardCounts };
+
+export interface StorageStatus {
+  area: "sync" | "local";
+  /** Why settings fell back to storage.local, when they did */
+  reason?: string;
+  since?: number;
 }
 
-export async function setSettings(s: Settings) {
-  return browser.storage.sync.set({ [KEY]: s });
+function shardKey(field: ShardedField, index: number): string {
+  return `${KEY}.${field}.${index}`;
 }
 
-export async function updateSettings(patch: Partial<Settings>) {
-  const s = await getSettings();
-  const next = { ...s, ...patch, perSite: { ...s.perSite, ...(patch.perSite || {}) } };
-  return setSettings(next);
+/** Approximate bytes an item uses against the sync quota (key + JSON value) */
+export function itemBytes(key: string, value: unknown): number {
+  return key.length + JSON.stringify(value).length;
+}
+
+/** Split perSite entries / regex lines into chunks that each fit the shard budget */
+function chunkField(field: ShardedField, value: Settings[ShardedField]): unknown[] {
+  const chunks: unknown[] = [];
+  const budget = SHARD_BUDGET_BYTES - shardKey(field, 999).length;
+
+  if (field === "perSite") {
+    let chunk: Record<string, unknown> = {};
+    for (const [origin, conf] of Object.entries(value as Settings["perSite"])) {
+      const candidate = { ...chunk, [origin]: conf };
+      if (Object.keys(chunk).length && JSON.stringify(candidate).length > budget) {
+        chunks.push(chunk);
+        chunk = { [origin]: conf };
+      } else {
+        chunk = candidate;
+      }
+    }
+    if (Object.keys(chunk).length) chunks.push(chunk);
+  } else {
+    let chunk: string[] = [];
+    for (const line of value as string[]) {
+      if (chunk.length && JSON.stringify([...chunk, line]).length > budget) {
+        chunks.push(chunk);
+        chunk = [];
+      }
+      chunk.push(line);
+    }
+    if (chunk.length) chunks.push(chunk);
+  }
+
+  return chunks;
+}
+
+/** Build the storage.sync items for a settings object */
+export function shardSettings(s: Record<string, unknown>): Record<string, unknown> {
+  const core: StoredCore = { ...s };
+  const items: Record<string, unknown> = {};
+  const shards = {} as ShardCounts;
+
+  for (const field of SHARDED_FIELDS) {
+    const chunks = chunkField(field, (s[field] ?? (field === "perSite" ? {} : [])) as Settings[ShardedField]);
+    chunks.forEach((chunk, i) => (items[shardKey(field, i)] = chunk));
+    shards[field] = chunks.length;
+    delete core[field];
+  }
+
+  items[KEY] = { ...core, shards };
+  return items;
+}
+
+/** Reassemble settings from sharded storage.sync items (unsharded legacy data passes through) */
+export function unshardSettings(items: Record<string, unknown>): Record<string, unknown> | undefined {
+  const core = items[KEY] as StoredCore | undefined;
+  if (!core || typeof core !== "object") return core;
+  if (!core.shards) return core;
+
+  const { shards, ...out } = core;
+  const perSite: Record<string, unknown> = {};
+  const excludeRegex: unknown[] = [];
+
+  for (let i = 0; i < (shards.perSite ?? 0); i++) {
+    Object.assign(perSite, items[shardKey("perSite", i)] || {});
+  }
+  for (let i = 0; i < (shards.excludeRegex ?? 0); i++) {
+    const chunk = items[shardKey("excludeRegex", i)];
+    if (Array.isArray(chunk)) excludeRegex.push(...chunk);
+  }
+
+  return { ...out, perSite, excludeRegex };
 }
 
-export function originFromUrl(url: string): string {
+/**
+ * Read raw (unmigrated) settings from whichever area currently holds them
+ * `legacy` is true for settings still stored as a single unsharded sync item
+ */
+async function readRaw(): Promise<{ raw: unknown; legacy: boolean }> {
+  const local = await browser.storage.local.get([KEY, QUOTA_FLAG_KEY]);
+  if (local[QUOTA_FLAG_KEY] && local[KEY] !== undefined) return { raw: local[KEY], legacy: false };
+
+  const synced = await browser.storage.sync.get(null);
+  const core = synced[KEY] as StoredCore | undefined;
+  return { raw: unshardSettings(synced), legacy: !!core && !core.shards };
+}
+
+/**
+ * Write settings to storage.sync as shards
+ * If sync rejects the write (quota exhausted), keep them in storage.local instead
+ * and flag it so the popup/options can warn the user.
+ */
+async function writeRaw(s: Record<string, unknown>): Promise<void> {
+  const items = shardSettings(s);
+
   try {
-    const u = new URL(url);
-    return `${u.protocol}//${u.hostname}`;
-  } catch {
-    return url;
+    await browser.storage.sync.set(items);
+  } catch (err) {
+    warn("storage.sync rejected settings, falling back to storage.local:", err);
+    const status: StorageStatus = { area: "local", reason: (err as Error)?.message || String(err), since: Date.now() };
+    await browser.storage.local.set({ [KEY]: s, [QUOTA_FLAG_KEY]: status });
+    return;
+  }
+
+  // Drop shards left over from a previously larger settings object
+  const existing = await browser.storage.sync.get(null);
+  const stale = Object.keys(existing).filter((k) => SHARD_KEY_RE.test(k) && !(k in items));
+  if (stale.length) await browser.storage.sync.remove(stale);
+
+  // Sync accepted the write again: retire any local fallback copy
+  const local = await browser.storage.local.get(QUOTA_FLAG_KEY);
+  if (local[QUOTA_FLAG_KEY]) {
+    debugSync('Settings fit storage.sync again, removing local fallback');
+    await browser.storage.local.remove([KEY, QUOTA_FLAG_KEY]);
   }
 }
+
+/** Where settings are currently stored; `area: "local"` means sync quota was exhausted */
+export async function getStorageStatus(): Promise<StorageStatus> {
+  const local = await browser.storage.local.get(QUOTA_FLAG_KEY);
+  return (local[QUOTA_FLAG_KEY] as StorageStatus | undefined) ?? { area: "sync" };
+}
+
+export async function getSettings(): Promise<Settings> {
+  const { raw } = await readRaw();
+  // Upgrade in memory so older stored shapes are usable before runMigrations() persists them
+  const { settings: stored } = migrateSettings(raw);
+  const { settings, issues } = normalizeSettings(stored);
+  if (issues.length) warn("Stored settings needed repair:", issues);
+  return settings;
+}
+
+/**
+ * Validate and store settings
+ * `source` describes what made the change; the replaced settings are kept in
+ * the history ring under that label so the change can be undone. Throws
+ * SettingsValidationError (and writes nothing) if `s` is invalid.
+ */
+export async function setSettings(s: Settings, source = "Unknown") {
+  const valid = validateSettings(s);
+  const previous = await getSettings();
+  await writeRaw(valid as unknown as Record<string, unknown>);
+
+  if (JSON.stringify(previous) === JSON.stringify(valid)) return;
+  try {
+    await recordSnapshot(previous, source);
+  } catch (err) {
+    // History is a convenience; never fail the write because of it
+    warn('Could not record settings history:', err);
+  }
+}
+
+/** Put back the settings stored in a history snapshot (itself recorded, so a restore can be undone) */
+export async function restoreSnapshot(id: string): Promise<Settings> {
+  const snap = await findSnapshot(id);
+  if (!snap) throw new Error(`No settings snapshot with id ${id}`);
+  const { settings } = normalizeSettings(migrateSettings(snap.settings).settings);
+  await setSettings(settings, `Restore of ${new Date(snap.at).toLocaleString()} snapshot`);
+  return settings;
+}
+
+/**
+ * Persist any pending schema migrations for the stored settings
+ * Returns true if the stored data was rewritten
+ */
+export async function runMigrations(): Promise<boolean> {
+  const { raw, legacy } = await readRaw();
+  if (raw === undefined) return false; // Fresh install: defaults already current
+  const { settings, changed } = migrateSettings(raw);
+  // Unsharded legacy data is rewritten too, so it gets split across items
+  if (!changed && !legacy) return false;
+  await writeRaw(normalizeSettings(settings).settings as unknown as Record<string, unknown>);
+  return true;
+}
+
+export async function updateSettings(input: Partial<Settings>, source = "Unknown") {
+  const patch = validateSettingsPatch(input);
+  const s = await getSettings();
+  const next = { ...s, ...patch, perSite: { ...s.perSite, ...(patch.perSite || {}) } };
+  return setSettings(next, source);
+}
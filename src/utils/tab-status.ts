@@ -0,0 +1,87 @@
+// src/utils/tab-status.ts
+
+/**
+ * What the content script decided for a page, and why
+ * The content script reports a TabStatus after every tick; the background
+ * keeps one per tab and shows it on the toolbar button (badge, icon, title).
+ */
+
+import type { Mode, Settings } from "../types/settings";
+import type { EffectiveSettings } from "./effective-settings";
+import type { DarkThemeVerdict } from "./dark-detection";
+import { matchingExclusion } from "./regex";
+
+export type TabStatusReason =
+  | "themed"
+  | "global-off"     // Settings.enabled is off and no site rule turns it back on
+  | "site-off"       // a perSite rule sets enabled: false
+  | "tab-off"        // a session-only tab override sets enabled: false
+  | "site-excluded"  // a perSite rule sets exclude: true
+  | "regex-excluded" // an excludeRegex pattern matches the URL
+  | "snoozed"        // paused from the popup or context menu
+  | "already-dark";  // dark detection skipped the page
+
+export interface TabStatus {
+  themed: boolean;
+  reason: TabStatusReason;
+  /** Extra context: the rule or pattern responsible, the dark detection result, ... */
+  detail?: string;
+  /** Algorithm in use when themed */
+  mode?: Mode;
+}
+
+/** Most specific matching rule that sets `flag`, for the status detail */
+function ruleSetting(eff: EffectiveSettings, base: Settings, flag: "enabled" | "exclude"): string | undefined {
+  return [...eff.rules].reverse().find((key) => typeof base.perSite[key]?.[flag] === "boolean");
+}
+
+/** Why settings alone keep `url` from being themed, or null if they don't */
+export function settingsSkipStatus(url: string, base: Settings, eff: EffectiveSettings, tabOverride: Partial<Settings> = {}): TabStatus | null {
+  if (tabOverride.enabled === false) return { themed: false, reason: "tab-off" };
+  if (!eff.use.enabled) {
+    const rule = ruleSetting(eff, base, "enabled");
+    return rule && base.perSite[rule].enabled === false
+      ? { themed: false, reason: "site-off", detail: rule }
+      : { themed: false, reason: "global-off" };
+  }
+  if (eff.site.exclude === true) {
+    return { themed: false, reason: "site-excluded", detail: ruleSetting(eff, base, "exclude") };
+  }
+  const pattern = matchingExclusion(url, base.excludeRegex);
+  if (pattern !== null) return { themed: false, reason: "regex-excluded", detail: pattern };
+  return null;
+}
+
+export function darkSiteStatus(verdict: DarkThemeVerdict): TabStatus {
+  const detail = verdict.reason === "markers"
+    ? "dark theme markers"
+    : verdict.reason === "color-scheme"
+      ? "prefers-color-scheme: dark"
+      : `luminance ${(verdict.luminance ?? 0).toFixed(2)}`;
+  return { themed: false, reason: "already-dark", detail };
+}
+
+const SKIP_LABELS: Record<Exclude<TabStatusReason, "themed">, { badge: string; title: string }> = {
+  "global-off": { badge: "OFF", title: "turned off everywhere" },
+  "site-off": { badge: "OFF", title: "turned off for this site" },
+  "tab-off": { badge: "OFF", title: "turned off for this tab" },
+  "site-excluded": { badge: "EXC", title: "site excluded" },
+  "regex-excluded": { badge: "EXC", title: "URL matches an exclusion pattern" },
+  "snoozed": { badge: "ZZZ", title: "paused" },
+  "already-dark": { badge: "DRK", title: "site already dark" }
+};
+
+/** Runtime check for status messages from content scripts */
+export function isTabStatusReason(value: unknown): value is TabStatusReason {
+  return value === "themed" || (typeof value === "string" && Object.prototype.hasOwnProperty.call(SKIP_LABELS, value));
+}
+
+/** Toolbar presentation of a status: badge text and tooltip */
+export function statusBadge(status: TabStatus): { text: string; title: string } {
+  if (status.themed) {
+    return { text: "", title: `UltraDark: active${status.mode ? ` (${status.mode})` : ""}` };
+  }
+  const label = SKIP_LABELS[status.reason as Exclude<TabStatusReason, "themed">];
+  const reason = status.detail ? `${label.title} (${status.detail})` : label.title;
+  return { text: label.badge, title: `UltraDark — Skipped: ${reason}` };
+}
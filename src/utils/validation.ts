@@ -0,0 +1,389 @@
+// src/utils/validation.ts
+
+/**
+ * Runtime validation and normalisation of Settings
+ * Everything that reads or writes settings goes through here so a bad
+ * message payload or hand-edited storage can't break every tab.
+ */
+
+import type { Mode, Schedule, ScheduleRamp, ScheduleWindow, Settings, SiteOverride, SolarSchedule, ThemeProfile } from "../types/settings";
+import { DEFAULTS, MODES, PROFILE_KEYS, RAMP_RANGES, SCHEMA_VERSION, SETTING_RANGES, SOLAR_RANGES } from "./defaults";
+import { canonicalSiteKey } from "./site-rules";
+
+export interface ValidationIssue {
+  path: string;      // e.g. "perSite.https://a.com.override.brightness"
+  message: string;
+  value?: unknown;   // The rejected input value
+}
+
+export class SettingsValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid settings: ${issues.map((i) => `${i.path}: ${i.message}`).join("; ")}`);
+    this.name = "SettingsValidationError";
+    this.issues = issues;
+  }
+}
+
+type RangeKey = keyof typeof SETTING_RANGES;
+const RANGE_KEYS = Object.keys(SETTING_RANGES) as RangeKey[];
+const BOOLEAN_KEYS = ["enabled", "amoled", "optimizerEnabled", "detectDarkSites"] as const;
+
+/** Keys that make no sense inside a per-site override and would clobber global state */
+const NON_OVERRIDABLE_KEYS = ["schemaVersion", "perSite", "profiles", "excludeRegex", "schedule"];
+
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Longest CSS selector accepted in SiteOverride.excludeSelectors */
+export const MAX_SELECTOR_LENGTH = 500;
+
+export function isValidTime(value: unknown): value is string {
+  return typeof value === "string" && TIME_RE.test(value);
+}
+
+export function isMode(value: unknown): value is Mode {
+  return typeof value === "string" && (MODES as readonly string[]).includes(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkBoolean(value: unknown, fallback: boolean, path: string, issues: ValidationIssue[]): boolean {
+  if (typeof value === "boolean") return value;
+  issues.push({ path, message: "expected a boolean", value });
+  return fallback;
+}
+
+function checkRange(key: RangeKey, value: unknown, fallback: number, path: string, issues: ValidationIssue[]): number {
+  return checkBounds(SETTING_RANGES[key], value, fallback, path, issues);
+}
+
+function checkBounds(
+  { min, max }: { min: number; max: number },
+  value: unknown,
+  fallback: number,
+  path: string,
+  issues: ValidationIssue[]
+): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push({ path, message: "expected a number", value });
+    return fallback;
+  }
+  if (value < min || value > max) {
+    issues.push({ path, message: `must be between ${min} and ${max}`, value });
+    return Math.min(max, Math.max(min, value));
+  }
+  return value;
+}
+
+function checkMode(value: unknown, fallback: Mode, path: string, issues: ValidationIssue[]): Mode {
+  if (isMode(value)) return value;
+  issues.push({ path, message: `must be one of ${MODES.join(", ")}`, value });
+  return fallback;
+}
+
+function normalizeSolar(input: unknown, path: string, issues: ValidationIssue[]): SolarSchedule {
+  const fallback = DEFAULTS.schedule.solar;
+  if (!isRecord(input)) {
+    issues.push({ path, message: "expected an object", value: input });
+    return { ...fallback };
+  }
+
+  const solar: SolarSchedule = { ...fallback };
+  for (const key of Object.keys(SOLAR_RANGES) as (keyof typeof SOLAR_RANGES)[]) {
+    if (key in input) solar[key] = checkBounds(SOLAR_RANGES[key], input[key], fallback[key], `${path}.${key}`, issues);
+  }
+  if ("city" in input) {
+    if (typeof input.city === "string") solar.city = input.city;
+    else issues.push({ path: `${path}.city`, message: "expected a string", value: input.city });
+  }
+  return solar;
+}
+
+function normalizeRamp(input: unknown, path: string, issues: ValidationIssue[]): ScheduleRamp {
+  const fallback = DEFAULTS.schedule.ramp;
+  if (!isRecord(input)) {
+    issues.push({ path, message: "expected an object", value: input });
+    return { ...fallback };
+  }
+
+  const ramp: ScheduleRamp = { ...fallback };
+  if ("enabled" in input) ramp.enabled = checkBoolean(input.enabled, fallback.enabled, `${path}.enabled`, issues);
+  if ("minutes" in input) ramp.minutes = Math.round(checkBounds(RAMP_RANGES.minutes, input.minutes, fallback.minutes, `${path}.minutes`, issues));
+  return ramp;
+}
+
+/** Returns null (with an issue) for windows that can't be repaired */
+function normalizeScheduleWindow(input: unknown, path: string, issues: ValidationIssue[]): ScheduleWindow | null {
+  if (!isRecord(input)) {
+    issues.push({ path, message: "expected an object", value: input });
+    return null;
+  }
+
+  const window: ScheduleWindow = { days: [], start: "", end: "" };
+  for (const key of ["start", "end"] as const) {
+    if (isValidTime(input[key])) {
+      window[key] = input[key] as string;
+    } else {
+      issues.push({ path: `${path}.${key}`, message: 'expected a time in "HH:MM" format', value: input[key] });
+      return null;
+    }
+  }
+
+  if (!Array.isArray(input.days)) {
+    issues.push({ path: `${path}.days`, message: "expected an array of weekdays 0-6", value: input.days });
+    return null;
+  }
+  for (const day of input.days) {
+    if (Number.isInteger(day) && day >= 0 && day <= 6) {
+      if (!window.days.includes(day)) window.days.push(day);
+    } else {
+      issues.push({ path: `${path}.days`, message: "weekdays must be integers 0 (Sunday) to 6 (Saturday)", value: day });
+    }
+  }
+  window.days.sort((a, b) => a - b);
+  return window;
+}
+
+function normalizeSchedule(input: unknown, path: string, issues: ValidationIssue[]): Schedule {
+  const fallback = DEFAULTS.schedule;
+  if (!isRecord(input)) {
+    issues.push({ path, message: "expected an object", value: input });
+    return structuredClone(fallback);
+  }
+
+  const schedule: Schedule = structuredClone(fallback);
+  if ("enabled" in input) schedule.enabled = checkBoolean(input.enabled, fallback.enabled, `${path}.enabled`, issues);
+  if ("kind" in input) {
+    if (input.kind === "fixed" || input.kind === "solar") schedule.kind = input.kind;
+    else issues.push({ path: `${path}.kind`, message: 'must be "fixed" or "solar"', value: input.kind });
+  }
+  if ("windows" in input) {
+    if (Array.isArray(input.windows)) {
+      schedule.windows = [];
+      input.windows.forEach((w, i) => {
+        const window = normalizeScheduleWindow(w, `${path}.windows.${i}`, issues);
+        if (window) schedule.windows.push(window);
+      });
+    } else {
+      issues.push({ path: `${path}.windows`, message: "expected an array", value: input.windows });
+    }
+  }
+  if ("solar" in input) schedule.solar = normalizeSolar(input.solar, `${path}.solar`, issues);
+  if ("ramp" in input) schedule.ramp = normalizeRamp(input.ramp, `${path}.ramp`, issues);
+  return schedule;
+}
+
+function normalizeExcludeRegex(input: unknown, path: string, issues: ValidationIssue[]): string[] {
+  if (!Array.isArray(input)) {
+    issues.push({ path, message: "expected an array of strings", value: input });
+    return [];
+  }
+  const out: string[] = [];
+  input.forEach((p, i) => {
+    if (typeof p === "string") out.push(p);
+    else issues.push({ path: `${path}.${i}`, message: "expected a string", value: p });
+  });
+  return out;
+}
+
+/**
+ * Validate the fields of a (partial) Settings object that are present
+ * Missing keys are left out; used for per-site overrides and patches.
+ */
+function normalizePartialSettings(input: Record<string, unknown>, path: string, issues: ValidationIssue[]): Partial<Settings> {
+  const out: Partial<Settings> = {};
+
+  for (const key of BOOLEAN_KEYS) {
+    if (key in input) out[key] = checkBoolean(input[key], DEFAULTS[key], `${path}.${key}`, issues);
+  }
+  for (const key of RANGE_KEYS) {
+    if (key in input) out[key] = checkRange(key, input[key], DEFAULTS[key], `${path}.${key}`, issues);
+  }
+  if ("mode" in input) out.mode = checkMode(input.mode, DEFAULTS.mode, `${path}.mode`, issues);
+
+  return out;
+}
+
+/** Combine two rules stored under one site key; `b` wins conflicting flags and override values */
+function mergeSiteOverrides(a: SiteOverride, b: SiteOverride): SiteOverride {
+  const merged: SiteOverride = { ...a, ...b };
+  if (a.override || b.override) merged.override = { ...a.override, ...b.override };
+  if (a.excludeSelectors || b.excludeSelectors) {
+    merged.excludeSelectors = [...new Set([...(a.excludeSelectors ?? []), ...(b.excludeSelectors ?? [])])];
+  }
+  return merged;
+}
+
+export function normalizeSiteOverride(input: unknown, path = "siteOverride"): { override: SiteOverride; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  if (!isRecord(input)) {
+    issues.push({ path, message: "expected an object", value: input });
+    return { override: {}, issues };
+  }
+
+  const override: SiteOverride = {};
+  for (const key of ["enabled", "exclude", "forceDarkMode"] as const) {
+    if (input[key] !== undefined) override[key] = checkBoolean(input[key], false, `${path}.${key}`, issues);
+  }
+
+  if (input.profile !== undefined) {
+    if (typeof input.profile === "string" && input.profile) override.profile = input.profile;
+    else issues.push({ path: `${path}.profile`, message: "expected a profile name", value: input.profile });
+  }
+
+  if (input.excludeSelectors !== undefined) {
+    if (Array.isArray(input.excludeSelectors)) {
+      const selectors = input.excludeSelectors.flatMap((sel, i) => {
+        if (typeof sel === "string" && sel.trim() && sel.length <= MAX_SELECTOR_LENGTH) return [sel.trim()];
+        issues.push({ path: `${path}.excludeSelectors.${i}`, message: "expected a CSS selector", value: sel });
+        return [];
+      });
+      if (selectors.length) override.excludeSelectors = [...new Set(selectors)];
+    } else {
+      issues.push({ path: `${path}.excludeSelectors`, message: "expected a list of CSS selectors", value: input.excludeSelectors });
+    }
+  }
+
+  if (input.override !== undefined) {
+    if (isRecord(input.override)) {
+      for (const key of NON_OVERRIDABLE_KEYS) {
+        if (key in input.override) {
+          issues.push({ path: `${path}.override.${key}`, message: "cannot be overridden per site", value: input.override[key] });
+        }
+      }
+      override.override = normalizePartialSettings(input.override, `${path}.override`, issues);
+    } else {
+      issues.push({ path: `${path}.override`, message: "expected an object", value: input.override });
+    }
+  }
+
+  return { override, issues };
+}
+
+/** Validate a named profile; missing values come from DEFAULTS */
+export function normalizeProfile(input: unknown, path = "profile"): { profile: ThemeProfile; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const base = Object.fromEntries(PROFILE_KEYS.map((k) => [k, DEFAULTS[k]])) as unknown as ThemeProfile;
+  if (!isRecord(input)) {
+    issues.push({ path, message: "expected an object", value: input });
+    return { profile: base, issues };
+  }
+
+  const values = normalizePartialSettings(input, path, issues);
+  const profile = { ...base };
+  for (const key of PROFILE_KEYS) {
+    if (key in values) (profile as unknown as Record<string, unknown>)[key] = values[key];
+  }
+  return { profile, issues };
+}
+
+/**
+ * Validate and normalise a full Settings object
+ * Missing fields fall back to DEFAULTS silently; wrong types fall back with an
+ * issue; out-of-range numbers are clamped with an issue. `checkProfileRefs:
+ * false` leaves site rules' profile names alone, for patches whose profiles
+ * live in the stored settings.
+ */
+export function normalizeSettings(
+  input: unknown,
+  { checkProfileRefs = true }: { checkProfileRefs?: boolean } = {}
+): { settings: Settings; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  if (!isRecord(input)) {
+    issues.push({ path: "", message: "expected a settings object", value: input });
+    return { settings: structuredClone(DEFAULTS), issues };
+  }
+
+  const settings: Settings = {
+    ...structuredClone(DEFAULTS),
+    ...normalizePartialSettings(input, "settings", issues)
+  };
+
+  if ("schemaVersion" in input) {
+    if (typeof input.schemaVersion === "number" && Number.isInteger(input.schemaVersion)) {
+      // The result only has this build's fields: data from a newer build is tagged
+      // with this schema so the newer build migrates it again instead of trusting it
+      settings.schemaVersion = Math.min(input.schemaVersion, SCHEMA_VERSION);
+    } else {
+      issues.push({ path: "settings.schemaVersion", message: "expected an integer", value: input.schemaVersion });
+    }
+  }
+
+  if ("perSite" in input) {
+    if (isRecord(input.perSite)) {
+      for (const [origin, entry] of Object.entries(input.perSite)) {
+        // Stored under canonical keys (see migration v4); other spellings of a
+        // site fold into one rule, the canonical spelling winning collisions
+        const key = canonicalSiteKey(origin);
+        if (!key) {
+          issues.push({ path: `settings.perSite.${origin}`, message: "not an origin, *.domain wildcard or path rule" });
+          continue;
+        }
+        const result = normalizeSiteOverride(entry, `settings.perSite.${origin}`);
+        const existing = settings.perSite[key];
+        settings.perSite[key] = !existing
+          ? result.override
+          : key === origin
+            ? mergeSiteOverrides(existing, result.override)
+            : mergeSiteOverrides(result.override, existing);
+        issues.push(...result.issues);
+      }
+    } else {
+      issues.push({ path: "settings.perSite", message: "expected an object", value: input.perSite });
+    }
+  }
+
+  if ("profiles" in input) {
+    if (isRecord(input.profiles)) {
+      for (const [name, entry] of Object.entries(input.profiles)) {
+        const result = normalizeProfile(entry, `settings.profiles.${name}`);
+        settings.profiles[name] = result.profile;
+        issues.push(...result.issues);
+      }
+    } else {
+      issues.push({ path: "settings.profiles", message: "expected an object", value: input.profiles });
+    }
+  }
+
+  // Site overrides may only reference profiles that exist
+  for (const [origin, conf] of checkProfileRefs ? Object.entries(settings.perSite) : []) {
+    if (conf.profile !== undefined && !Object.prototype.hasOwnProperty.call(settings.profiles, conf.profile)) {
+      issues.push({ path: `settings.perSite.${origin}.profile`, message: "unknown profile", value: conf.profile });
+      delete conf.profile;
+    }
+  }
+
+  if ("excludeRegex" in input) settings.excludeRegex = normalizeExcludeRegex(input.excludeRegex, "settings.excludeRegex", issues);
+  if ("schedule" in input) settings.schedule = normalizeSchedule(input.schedule, "settings.schedule", issues);
+
+  return { settings, issues };
+}
+
+/** Normalise settings and throw a SettingsValidationError if anything had to be repaired */
+export function validateSettings(input: unknown): Settings {
+  const { settings, issues } = normalizeSettings(input);
+  if (issues.length) throw new SettingsValidationError(issues);
+  return settings;
+}
+
+/**
+ * Validate a partial settings patch (e.g. from `udr:update-settings`)
+ * Only the keys present are checked; throws SettingsValidationError on any issue.
+ * Profile references are checked once the patch is merged (updateSettings).
+ */
+export function validateSettingsPatch(input: unknown): Partial<Settings> {
+  if (!isRecord(input)) {
+    throw new SettingsValidationError([{ path: "patch", message: "expected an object", value: input }]);
+  }
+  const { settings, issues } = normalizeSettings(input, { checkProfileRefs: false });
+  if (issues.length) throw new SettingsValidationError(issues);
+
+  const patch: Partial<Settings> = {};
+  for (const key of Object.keys(input) as (keyof Settings)[]) {
+    if (key in settings) (patch as Record<string, unknown>)[key] = settings[key];
+  }
+  return patch;
+}
@@ -0,0 +1,64 @@
+// tests/commands.test.ts
+import { describe, it, expect } from "vitest";
+import { DEFAULTS, MODES, SETTING_RANGES } from "../src/utils/defaults";
+import { applyCommand, COMMANDS, NUDGE_STEP, toggleSite } from "../src/background/commands";
+import { effectiveSettingsFor } from "../src/utils/effective-settings";
+import type { Settings } from "../src/types/settings";
+
+const settings = (patch: Partial<Settings> = {}): Settings => ({ ...structuredClone(DEFAULTS), ...patch });
+
+describe("Keyboard commands", () => {
+  it("should toggle the global switch", () => {
+    const s = settings({ enabled: true });
+    expect(applyCommand(COMMANDS.toggleGlobal, s)).toBe("turned off");
+    expect(s.enabled).toBe(false);
+    expect(applyCommand(COMMANDS.toggleGlobal, s)).toBe("turned on");
+    expect(s.enabled).toBe(true);
+  });
+
+  it("should toggle the current site from what the page shows now", () => {
+    const s = settings({ perSite: { "*.example.com": { enabled: false } } });
+    expect(applyCommand(COMMANDS.toggleSite, s, "https://www.docs.example.com/a")).toBe("toggle https://docs.example.com");
+    expect(s.perSite["https://docs.example.com"]).toEqual({ enabled: true });
+    expect(effectiveSettingsFor("https://docs.example.com/a", s).use.enabled).toBe(true);
+  });
+
+  it("should skip toggling a site for tabs without one", () => {
+    const s = settings();
+    expect(applyCommand(COMMANDS.toggleSite, s, "about:blank")).toBeNull();
+    expect(applyCommand(COMMANDS.toggleSite, s)).toBeNull();
+    expect(toggleSite(s, "data:text/html,hi")).toBeNull();
+    expect(s.perSite).toEqual({});
+  });
+
+  it("should cycle through every algorithm and wrap around", () => {
+    const s = settings({ mode: MODES[0] });
+    const seen = MODES.map(() => {
+      applyCommand(COMMANDS.cycleMode, s);
+      return s.mode;
+    });
+    expect(seen).toEqual([...MODES.slice(1), MODES[0]]);
+  });
+
+  it("should nudge brightness and contrast within their ranges", () => {
+    const s = settings({ brightness: 50, contrast: 110 });
+    expect(applyCommand(COMMANDS.brightnessUp, s)).toBe("brightness up");
+    expect(s.brightness).toBe(50 + NUDGE_STEP);
+    applyCommand(COMMANDS.contrastDown, s);
+    expect(s.contrast).toBe(110 - NUDGE_STEP);
+
+    s.brightness = SETTING_RANGES.brightness.max - 2;
+    applyCommand(COMMANDS.brightnessUp, s);
+    expect(s.brightness).toBe(SETTING_RANGES.brightness.max);
+    // Already at the limit: nothing to write
+    expect(applyCommand(COMMANDS.brightnessUp, s)).toBeNull();
+    s.contrast = SETTING_RANGES.contrast.min;
+    expect(applyCommand(COMMANDS.contrastDown, s)).toBeNull();
+  });
+
+  it("should ignore unknown commands", () => {
+    const s = settings();
+    expect(applyCommand("_execute_browser_action", s)).toBeNull();
+    expect(s).toEqual(settings());
+  });
+});
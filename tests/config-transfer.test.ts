@@ -0,0 +1,126 @@
+// tests/config-transfer.test.ts
+import { describe, it, expect } from "vitest";
+import type { Settings } from "../src/types/settings";
+import { DEFAULTS, SCHEMA_VERSION } from "../src/utils/defaults";
+import {
+  applyImport,
+  buildExport,
+  diffConfig,
+  parseImport,
+  ConfigImportError,
+  EXPORT_FORMAT,
+  EXPORT_VERSION
+} from "../src/utils/config-transfer";
+import { SettingsValidationError } from "../src/utils/validation";
+
+function settingsWith(patch: Partial<Settings>): Settings {
+  return { ...structuredClone(DEFAULTS), ...patch };
+}
+
+describe("Config import / export", () => {
+  describe("buildExport / parseImport", () => {
+    it("should round-trip settings and the debug flag", () => {
+      const s = settingsWith({
+        brightness: 70,
+        perSite: { "https://a.com": { exclude: true } },
+        excludeRegex: ["example.com"]
+      });
+      const doc = buildExport(s, true, new Date("2026-01-02T03:04:05Z"));
+
+      expect(doc).toMatchObject({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: "2026-01-02T03:04:05.000Z" });
+
+      const parsed = parseImport(JSON.stringify(doc));
+      expect(parsed.settings).toEqual(s);
+      expect(parsed.local.isDebugMode).toBe(true);
+    });
+
+    it("should canonicalise imported site keys so they match", () => {
+      const doc = buildExport(settingsWith({ perSite: { "https://www.example.com": { exclude: true } } }), false);
+      expect(parseImport(JSON.stringify(doc)).settings.perSite).toEqual({ "https://example.com": { exclude: true } });
+    });
+
+    it("should reject invalid JSON", () => {
+      expect(() => parseImport("{not json")).toThrow(ConfigImportError);
+    });
+
+    it("should reject documents from other tools", () => {
+      expect(() => parseImport(JSON.stringify({ settings: DEFAULTS }))).toThrow(ConfigImportError);
+    });
+
+    it("should reject export versions newer than supported", () => {
+      const doc = { ...buildExport(DEFAULTS, false), version: EXPORT_VERSION + 1 };
+      expect(() => parseImport(JSON.stringify(doc))).toThrow(/Unsupported export version/);
+    });
+
+    it("should migrate settings from older schema versions", () => {
+      const doc = { format: EXPORT_FORMAT, version: 1, settings: { mode: "surgeon" }, local: {} };
+      const parsed = parseImport(JSON.stringify(doc));
+      expect(parsed.settings.mode).toBe("dom-walker");
+      expect(parsed.settings.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(parsed.local.isDebugMode).toBe(false);
+    });
+
+    it("should report invalid settings as structured validation errors", () => {
+      const doc = { ...buildExport(DEFAULTS, false), settings: { ...DEFAULTS, contrast: 5000 } };
+      expect(() => parseImport(JSON.stringify(doc))).toThrow(SettingsValidationError);
+    });
+  });
+
+  describe("applyImport", () => {
+    const current = settingsWith({
+      brightness: 80,
+      perSite: { "https://a.com": { exclude: true }, "https://b.com": { enabled: true } },
+      excludeRegex: ["one"]
+    });
+    const incoming = settingsWith({
+      brightness: 60,
+      perSite: { "https://b.com": { enabled: false }, "https://c.com": {} },
+      excludeRegex: ["one", "two"]
+    });
+
+    it("should replace the whole config", () => {
+      expect(applyImport(current, incoming, "replace")).toEqual(incoming);
+    });
+
+    it("should merge sites and regex lines while keeping global values", () => {
+      const next = applyImport(current, incoming, "merge");
+      expect(next.brightness).toBe(80);
+      expect(next.perSite).toEqual({
+        "https://a.com": { exclude: true },
+        "https://b.com": { enabled: false },
+        "https://c.com": {}
+      });
+      expect(next.excludeRegex).toEqual(["one", "two"]);
+    });
+
+    it("should not mutate the current settings", () => {
+      applyImport(current, incoming, "merge");
+      expect(Object.keys(current.perSite)).toEqual(["https://a.com", "https://b.com"]);
+      expect(current.excludeRegex).toEqual(["one"]);
+    });
+  });
+
+  describe("diffConfig", () => {
+    it("should list added, changed and dropped sites and regex lines", () => {
+      const a = settingsWith({
+        perSite: { "https://keep.com": {}, "https://edit.com": { exclude: true }, "https://gone.com": {} },
+        excludeRegex: ["old", "same"]
+      });
+      const b = settingsWith({
+        perSite: { "https://keep.com": {}, "https://edit.com": { exclude: false }, "https://new.com": {} },
+        excludeRegex: ["same", "new"]
+      });
+
+      expect(diffConfig(a, b)).toEqual({
+        perSite: { added: ["https://new.com"], changed: ["https://edit.com"], removed: ["https://gone.com"] },
+        excludeRegex: { added: ["new"], removed: ["old"] }
+      });
+    });
+
+    it("should report nothing for identical configs", () => {
+      const diff = diffConfig(DEFAULTS, DEFAULTS);
+      expect(diff.perSite).toEqual({ added: [], changed: [], removed: [] });
+      expect(diff.excludeRegex).toEqual({ added: [], removed: [] });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+// tests/context-menu.test.ts
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { JSDOM } from "jsdom";
+import { DEFAULTS, MODES } from "../src/utils/defaults";
+import { effectiveSettingsFor } from "../src/utils/effective-settings";
+import {
+  applyMenuClick,
+  createContextMenus,
+  excludeElement,
+  MENU,
+  menuState,
+  pagePathKey,
+  refreshContextMenus
+} from "../src/background/context-menu";
+import { markExcludedElements, selectorFor, SKIP_ATTR } from "../src/content/element-exclusions";
+import type { Settings } from "../src/types/settings";
+
+const settings = (patch: Partial<Settings> = {}): Settings => ({ ...structuredClone(DEFAULTS), ...patch });
+
+describe("Context menu", () => {
+  describe("menuState", () => {
+    it("should reflect the page's effective settings", () => {
+      const s = settings({
+        perSite: {
+          "*.example.com": { forceDarkMode: true, override: { mode: "dom-walker" } },
+          "https://example.com/docs": { exclude: true }
+        }
+      });
+      expect(menuState(s, "https://example.com/docs")).toEqual({
+        available: true,
+        enabled: true,
+        forceDark: true,
+        mode: "dom-walker",
+        siteMode: false,
+        siteExcluded: true,
+        pathExcluded: true,
+        hasPath: true
+      });
+      expect(menuState(s, "https://example.com/").hasPath).toBe(false);
+    });
+
+    it("should mark pages without a site unavailable", () => {
+      expect(menuState(settings(), "about:addons").available).toBe(false);
+    });
+  });
+
+  describe("applyMenuClick", () => {
+    it("should set the site's algorithm and fall back to the global one", () => {
+      const s = settings({ mode: "photon-inverter" });
+      expect(applyMenuClick(`${MENU.mode}:chroma-semantic`, s, "https://www.example.com/a")).toBe("https://example.com chroma-semantic algorithm");
+      expect(effectiveSettingsFor("https://example.com/", s).use.mode).toBe("chroma-semantic");
+      expect(menuState(s, "https://example.com/").siteMode).toBe(true);
+
+      expect(applyMenuClick(MENU.modeDefault, s, "https://example.com/")).toBe("https://example.com uses global algorithm");
+      expect(s.perSite).toEqual({});
+      expect(applyMenuClick(MENU.modeDefault, s, "https://example.com/")).toBeNull();
+    });
+
+    it("should map the checkbox state onto forceDarkMode and exclude", () => {
+      const s = settings();
+      applyMenuClick(MENU.forceDark, s, "https://example.com/", true);
+      expect(s.perSite["https://example.com"]).toEqual({ forceDarkMode: true });
+      applyMenuClick(MENU.excludeSite, s, "https://example.com/", true);
+      applyMenuClick(MENU.forceDark, s, "https://example.com/", false);
+      expect(s.perSite["https://example.com"]).toEqual({ forceDarkMode: false, exclude: true });
+    });
+
+    it("should exclude just the page path and remove the rule again", () => {
+      const s = settings();
+      expect(pagePathKey("https://example.com/inbox?x=1#top")).toBe("https://example.com/inbox");
+      expect(applyMenuClick(MENU.excludePath, s, "https://example.com/inbox", true)).toBe("exclude https://example.com/inbox on");
+      expect(effectiveSettingsFor("https://example.com/inbox/42", s).excluded).toBe(true);
+      expect(effectiveSettingsFor("https://example.com/", s).excluded).toBe(false);
+
+      applyMenuClick(MENU.excludePath, s, "https://example.com/inbox", false);
+      expect(s.perSite).toEqual({});
+      expect(applyMenuClick(MENU.excludePath, s, "https://example.com/", true)).toBeNull();
+    });
+
+    it("should escape a * in the page path instead of storing a glob", () => {
+      const s = settings();
+      expect(pagePathKey("https://example.com/search/*")).toBe("https://example.com/search/\\*");
+      applyMenuClick(MENU.excludePath, s, "https://example.com/search/*", true);
+      expect(effectiveSettingsFor("https://example.com/search/*", s).excluded).toBe(true);
+      expect(effectiveSettingsFor("https://example.com/search/cats", s).excluded).toBe(false);
+    });
+
+    it("should toggle the site and ignore items handled elsewhere", () => {
+      const s = settings();
+      expect(applyMenuClick(MENU.toggleSite, s, "https://example.com/")).toBe("toggle https://example.com");
+      expect(s.perSite["https://example.com"].enabled).toBe(false);
+      expect(applyMenuClick(`${MENU.snooze}:site:15m`, s, "https://example.com/")).toBeNull();
+      expect(applyMenuClick(`${MENU.mode}:bogus`, s, "https://example.com/")).toBeNull();
+      expect(applyMenuClick(MENU.forceDark, s, "about:blank", true)).toBeNull();
+    });
+
+    it("should add an element selector once", () => {
+      const s = settings();
+      excludeElement(s, "https://example.com/a", "#ad");
+      excludeElement(s, "https://example.com/b", "#ad");
+      expect(s.perSite["https://example.com"].excludeSelectors).toEqual(["#ad"]);
+    });
+  });
+
+  describe("menus", () => {
+    const contextMenus = {
+      removeAll: vi.fn(async () => {}),
+      create: vi.fn(),
+      update: vi.fn(async () => {}),
+      refresh: vi.fn(async () => {})
+    };
+
+    beforeEach(() => {
+      Object.values(contextMenus).forEach((fn) => fn.mockClear());
+      // @ts-expect-error - mocking browser global
+      globalThis.browser = { contextMenus };
+    });
+
+    it("should nest every item under one parent, with a radio per algorithm", async () => {
+      await createContextMenus();
+      const created = contextMenus.create.mock.calls.map(([props]) => props as { id: string; parentId?: string; type?: string });
+      expect(created[0]).toMatchObject({ id: MENU.root });
+      expect(created.slice(1).every((p) => p.parentId)).toBe(true);
+      expect(created.filter((p) => p.type === "radio").map((p) => p.id)).toEqual(MODES.map((m) => `${MENU.mode}:${m}`));
+      expect(created.find((p) => p.id === MENU.forceDark)?.type).toBe("checkbox");
+    });
+
+    it("should refresh marks for the tab the menu opened on", async () => {
+      const s = settings({ perSite: { "https://example.com": { forceDarkMode: true } } });
+      await refreshContextMenus(s, "https://example.com/");
+      expect(contextMenus.update).toHaveBeenCalledWith(MENU.forceDark, { enabled: true, checked: true });
+      expect(contextMenus.update).toHaveBeenCalledWith(`${MENU.mode}:${s.mode}`, { checked: true });
+      expect(contextMenus.update).toHaveBeenCalledWith(MENU.excludePath, { enabled: true, visible: false, checked: false });
+      expect(contextMenus.refresh).toHaveBeenCalled();
+    });
+  });
+
+  describe("element selectors", () => {
+    const dom = new JSDOM(`<!DOCTYPE html><body>
+      <div id="app"><p>one</p><p>two <b>bold</b></p></div>
+      <section><ul><li>a</li><li>b</li></ul></section>
+      <span id="dup"></span><span id="dup"></span>
+    </body>`);
+    const doc = dom.window.document;
+
+    it("should build a selector that finds the same element", () => {
+      for (const el of [doc.querySelectorAll("p")[1].querySelector("b")!, doc.querySelectorAll("li")[1], doc.querySelectorAll("#dup")[1]]) {
+        const selector = selectorFor(el)!;
+        expect(doc.querySelectorAll(selector)).toHaveLength(1);
+        expect(doc.querySelector(selector)).toBe(el);
+      }
+      expect(selectorFor(doc.querySelectorAll("p")[1])).toBe("#app > p:nth-of-type(2)");
+    });
+
+    it("should anchor deep paths on a unique attribute and give up past MAX_SELECTOR_LENGTH", () => {
+      const nest = (depth: number, leaf: string) => "<div></div><div>".repeat(depth) + leaf + "</div>".repeat(depth);
+      const deep = new JSDOM(`<!DOCTYPE html><body>${nest(30, `<main data-testid="feed">${nest(3, "<i>x</i>")}</main>`)}</body>`).window.document;
+      const target = deep.querySelector("i")!;
+      expect(selectorFor(target)).toBe('main[data-testid="feed"] > div:nth-of-type(2) > div:nth-of-type(2) > div:nth-of-type(2) > i');
+      expect(deep.querySelector(selectorFor(target)!)).toBe(target);
+
+      const unanchored = new JSDOM(`<!DOCTYPE html><body>${nest(40, "<i>x</i>")}</body>`).window.document;
+      expect(selectorFor(unanchored.querySelector("i")!)).toBeNull();
+    });
+
+    it("should mark matching elements and skip unparseable selectors", () => {
+      markExcludedElements(["section li:nth-of-type(2)", "<<nope"], doc);
+      expect(doc.querySelectorAll(`[${SKIP_ATTR}]`)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+// tests/effective-settings.test.ts
+import { describe, it, expect } from "vitest";
+import type { Settings, ThemeProfile } from "../src/types/settings";
+import { DEFAULTS } from "../src/utils/defaults";
+import { effectiveSettingsFor, profileByName, sameEffectiveSettings } from "../src/utils/effective-settings";
+
+const NIGHT: ThemeProfile = {
+  mode: "dom-walker",
+  amoled: true,
+  brightness: 70,
+  contrast: 130,
+  sepia: 10,
+  grayscale: 0,
+  blueShift: 40
+};
+
+function settingsWith(patch: Partial<Settings>): Settings {
+  return { ...structuredClone(DEFAULTS), ...patch };
+}
+
+describe("effectiveSettingsFor", () => {
+  it("should return global settings for sites without overrides", () => {
+    const s = settingsWith({ brightness: 85 });
+    const { use, excluded, site, rules } = effectiveSettingsFor("https://example.com/page", s);
+    expect(use).toEqual(s);
+    expect(excluded).toBe(false);
+    expect(site).toEqual({});
+    expect(rules).toEqual([]);
+  });
+
+  it("should apply the site's named profile over global values", () => {
+    const s = settingsWith({
+      profiles: { "Night AMOLED": NIGHT },
+      perSite: { "https://example.com": { profile: "Night AMOLED" } }
+    });
+    const { use } = effectiveSettingsFor("https://example.com/", s);
+    expect(use).toMatchObject(NIGHT);
+  });
+
+  it("should apply per-site override values after the profile", () => {
+    const s = settingsWith({
+      profiles: { Reading: NIGHT },
+      perSite: { "https://example.com": { profile: "Reading", override: { brightness: 95 } } }
+    });
+    const { use } = effectiveSettingsFor("https://example.com/", s);
+    expect(use.brightness).toBe(95);
+    expect(use.contrast).toBe(NIGHT.contrast);
+  });
+
+  it("should ignore references to missing profiles", () => {
+    const s = settingsWith({ perSite: { "https://example.com": { profile: "Docs" } } });
+    expect(effectiveSettingsFor("https://example.com/", s).use.mode).toBe(DEFAULTS.mode);
+  });
+
+  it("should let the per-site enabled flag win over the global switch", () => {
+    const s = settingsWith({ enabled: false, perSite: { "https://example.com": { enabled: true } } });
+    expect(effectiveSettingsFor("https://example.com/", s).use.enabled).toBe(true);
+  });
+
+  it("should report exclusion from the site flag or regex list", () => {
+    const s = settingsWith({
+      perSite: { "https://a.com": { exclude: true } },
+      excludeRegex: ["b\\.com/private"]
+    });
+    expect(effectiveSettingsFor("https://a.com/", s).excluded).toBe(true);
+    expect(effectiveSettingsFor("https://b.com/private/x", s).excluded).toBe(true);
+    expect(effectiveSettingsFor("https://b.com/public", s).excluded).toBe(false);
+  });
+
+  it("should not treat inherited object properties as profiles", () => {
+    expect(profileByName(DEFAULTS, "constructor")).toBeUndefined();
+  });
+});
+
+describe("effectiveSettingsFor with overlapping rules", () => {
+  const s = settingsWith({
+    brightness: 90,
+    profiles: { "Night AMOLED": NIGHT },
+    perSite: {
+      "*.example.com": { override: { brightness: 60, contrast: 140 }, forceDarkMode: true },
+      "https://docs.example.com": { profile: "Night AMOLED" },
+      "https://docs.example.com/api/*": { override: { brightness: 75 } },
+      "https://docs.example.com/api/internal": { exclude: true },
+      "*.example.com/blog": { enabled: false }
+    }
+  });
+
+  it("should apply a wildcard rule to every subdomain", () => {
+    const { use, site, rules } = effectiveSettingsFor("https://shop.example.com/", s);
+    expect(use.brightness).toBe(60);
+    expect(site.forceDarkMode).toBe(true);
+    expect(rules).toEqual(["*.example.com"]);
+  });
+
+  it("should let an exact origin win over a wildcard", () => {
+    const { use } = effectiveSettingsFor("https://docs.example.com/guide", s);
+    expect(use).toMatchObject(NIGHT);
+  });
+
+  it("should let a path rule win over its origin, field by field", () => {
+    const { use, site, rules } = effectiveSettingsFor("https://docs.example.com/api/users", s);
+    expect(use.brightness).toBe(75);        // path rule
+    expect(use.mode).toBe(NIGHT.mode);      // origin's profile
+    expect(site.forceDarkMode).toBe(true);  // wildcard flag
+    expect(rules).toEqual(["*.example.com", "https://docs.example.com", "https://docs.example.com/api/*"]);
+  });
+
+  it("should let the longest path decide exclusion", () => {
+    expect(effectiveSettingsFor("https://docs.example.com/api/internal/x", s).excluded).toBe(true);
+    expect(effectiveSettingsFor("https://docs.example.com/api/public", s).excluded).toBe(false);
+  });
+
+  it("should apply wildcard path rules across subdomains", () => {
+    expect(effectiveSettingsFor("https://www.example.com/blog/post", s).use.enabled).toBe(false);
+    expect(effectiveSettingsFor("https://www.example.com/shop", s).use.enabled).toBe(true);
+  });
+
+  it("should let a narrower rule re-enable what a broader rule excluded", () => {
+    const t = settingsWith({
+      perSite: {
+        "*.corp.com": { exclude: true },
+        "https://wiki.corp.com": { exclude: false }
+      }
+    });
+    expect(effectiveSettingsFor("https://mail.corp.com/", t).excluded).toBe(true);
+    expect(effectiveSettingsFor("https://wiki.corp.com/", t).excluded).toBe(false);
+  });
+
+  it("should collect excluded elements from every matching rule", () => {
+    const t = settingsWith({
+      perSite: {
+        "*.corp.com": { excludeSelectors: ["#banner"] },
+        "https://wiki.corp.com": { excludeSelectors: ["main > pre", "#banner"] }
+      }
+    });
+    expect(effectiveSettingsFor("https://wiki.corp.com/", t).site.excludeSelectors).toEqual(["#banner", "main > pre"]);
+    expect(effectiveSettingsFor("https://mail.corp.com/", t).site.excludeSelectors).toEqual(["#banner"]);
+  });
+});
+
+describe("sameEffectiveSettings", () => {
+  it("should ignore changes to other sites", () => {
+    const before = settingsWith({});
+    const after = settingsWith({ perSite: { "https://other.com": { override: { brightness: 60 } } } });
+    expect(sameEffectiveSettings(
+      effectiveSettingsFor("https://example.com/", before),
+      effectiveSettingsFor("https://example.com/", after)
+    )).toBe(true);
+  });
+
+  it("should detect theme, exclusion and force-dark changes for the page", () => {
+    const url = "https://example.com/";
+    const base = effectiveSettingsFor(url, settingsWith({}));
+    expect(sameEffectiveSettings(base, effectiveSettingsFor(url, settingsWith({ contrast: 150 })))).toBe(false);
+    expect(sameEffectiveSettings(base, effectiveSettingsFor(url, settingsWith({ excludeRegex: ["example"] })))).toBe(false);
+    expect(sameEffectiveSettings(base, effectiveSettingsFor(url, settingsWith({
+      perSite: { "https://example.com": { forceDarkMode: true } }
+    })))).toBe(false);
+    expect(sameEffectiveSettings(base, effectiveSettingsFor(url, settingsWith({
+      perSite: { "https://example.com": { excludeSelectors: ["#ad"] } }
+    })))).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+// tests/frame-context.test.ts
+import { describe, it, expect } from "vitest";
+import { excludeSelectorsFor, frameContextFor, frameTreatment, sameFrameContext, type FrameContext } from "../src/utils/frame-context";
+import { buildInvertedParentCss } from "../src/content/style-template";
+import { excludeElement } from "../src/background/context-menu";
+import { DEFAULTS } from "../src/utils/defaults";
+
+const PAGE = "https://example.com/article";
+const EMBED = "https://comments.example.net/thread/9";
+
+describe("Frame context", () => {
+  describe("frameContextFor", () => {
+    it("should be null until the top frame has reported", () => {
+      expect(frameContextFor(PAGE, undefined)).toBeNull();
+    });
+
+    it("should mark only photon-themed pages as inverting their frames", () => {
+      expect(frameContextFor(PAGE, { themed: true, reason: "themed", mode: "photon-inverter" })).toEqual({
+        url: PAGE,
+        themed: true,
+        inverted: true
+      });
+      expect(frameContextFor(PAGE, { themed: true, reason: "themed", mode: "chroma-semantic" })?.inverted).toBe(false);
+      expect(frameContextFor(PAGE, { themed: false, reason: "site-off" })).toEqual({
+        url: PAGE,
+        themed: false,
+        inverted: false
+      });
+    });
+  });
+
+  describe("frameTreatment", () => {
+    const inverted: FrameContext = { url: PAGE, themed: true, inverted: true };
+    const themed: FrameContext = { url: PAGE, themed: true, inverted: false };
+    const off: FrameContext = { url: PAGE, themed: false, inverted: false };
+
+    it("should leave frames alone while the top frame is unthemed or unknown", () => {
+      expect(frameTreatment(null, false)).toBe("none");
+      expect(frameTreatment(off, false)).toBe("none");
+      expect(frameTreatment(off, true)).toBe("none");
+    });
+
+    it("should never invert a frame twice under an inverted page", () => {
+      expect(frameTreatment(inverted, false)).toBe("reinvert-media");
+      expect(frameTreatment(inverted, true)).toBe("cancel-inversion");
+    });
+
+    it("should theme light frames itself under other algorithms", () => {
+      expect(frameTreatment(themed, false)).toBe("theme");
+      expect(frameTreatment(themed, true)).toBe("none");
+    });
+  });
+
+  it("should compare contexts field by field", () => {
+    const a: FrameContext = { url: PAGE, themed: true, inverted: true };
+    expect(sameFrameContext(a, { ...a })).toBe(true);
+    expect(sameFrameContext(a, { ...a, inverted: false })).toBe(false);
+    expect(sameFrameContext(null, null)).toBe(true);
+    expect(sameFrameContext(a, null)).toBe(false);
+  });
+
+  describe("excludeSelectorsFor", () => {
+    it("should keep the top page's element exclusions out of its frames", () => {
+      const s = structuredClone(DEFAULTS);
+      s.perSite["https://example.com"] = { excludeSelectors: ["body > div:nth-of-type(2)"] };
+      expect(excludeSelectorsFor(PAGE, s)).toEqual(["body > div:nth-of-type(2)"]);
+      expect(excludeSelectorsFor(EMBED, s)).toEqual([]);
+    });
+
+    it("should apply an element excluded inside a frame to that frame only", () => {
+      const s = structuredClone(DEFAULTS);
+      // The context menu saves under the clicked frame's URL
+      excludeElement(s, EMBED, "#composer");
+      expect(excludeSelectorsFor(EMBED, s)).toEqual(["#composer"]);
+      expect(excludeSelectorsFor(PAGE, s)).toEqual([]);
+    });
+  });
+
+  describe("buildInvertedParentCss", () => {
+    it("should invert a dark frame's root once more", () => {
+      const css = buildInvertedParentCss(true);
+      expect(css).toMatch(/html \{ filter: invert\(1\) hue-rotate\(180deg\) !important; \}/);
+      expect(css).not.toContain("img");
+    });
+
+    it("should only re-invert media in a light frame", () => {
+      const css = buildInvertedParentCss(false);
+      expect(css).toContain("img, video, canvas, svg, picture");
+      expect(css).toContain("[data-udr-skip]:not([data-udr-skip] *)");
+      expect(css).not.toMatch(/^html/m);
+    });
+  });
+});
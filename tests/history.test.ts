@@ -0,0 +1,75 @@
+// tests/history.test.ts
+import { describe, it, expect, beforeEach } from "vitest";
+import { createMockBrowser, type MockBrowser } from "./mocks/storage";
+import { DEFAULTS } from "../src/utils/defaults";
+import { clearHistory, getHistory, recordSnapshot, HISTORY_LIMIT } from "../src/utils/history";
+import { getSettings, restoreSnapshot, setSettings, updateSettings } from "../src/utils/storage";
+
+let mockBrowser: MockBrowser;
+
+describe("Settings history", () => {
+  beforeEach(() => {
+    mockBrowser = createMockBrowser();
+    // @ts-expect-error - mocking browser global
+    globalThis.browser = mockBrowser;
+  });
+
+  it("should record the replaced settings with their change source", async () => {
+    await setSettings({ ...structuredClone(DEFAULTS), brightness: 80 }, "Popup: brightness slider");
+    await setSettings({ ...structuredClone(DEFAULTS), brightness: 60 }, "Popup: brightness slider");
+
+    const history = await getHistory();
+    expect(history).toHaveLength(2);
+    expect(history[0].source).toBe("Popup: brightness slider");
+    expect(history[0].settings.brightness).toBe(80);
+    expect(history[1].settings.brightness).toBe(DEFAULTS.brightness);
+    expect(history[0].at).toBeGreaterThanOrEqual(history[1].at);
+  });
+
+  it("should keep history in storage.local, not sync", async () => {
+    await updateSettings({ contrast: 150 }, "Options: regex exclusions");
+    expect(mockBrowser.storage.local.data.settingsHistory).toBeDefined();
+    expect(Object.keys(mockBrowser.storage.sync.data).some((k) => k.includes("History"))).toBe(false);
+  });
+
+  it("should not record writes that change nothing", async () => {
+    await setSettings(structuredClone(DEFAULTS), "Scheduler");
+    await setSettings(await getSettings(), "Scheduler");
+    expect(await getHistory()).toHaveLength(0);
+  });
+
+  it("should drop the oldest snapshots beyond the limit", async () => {
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      await recordSnapshot({ ...structuredClone(DEFAULTS), sepia: i }, `change ${i}`, 1000 + i);
+    }
+    const history = await getHistory();
+    expect(history).toHaveLength(HISTORY_LIMIT);
+    expect(history[0].source).toBe(`change ${HISTORY_LIMIT + 4}`);
+    expect(history[history.length - 1].source).toBe("change 5");
+  });
+
+  it("should restore a snapshot and record the restore itself", async () => {
+    await setSettings({ ...structuredClone(DEFAULTS), excludeRegex: ["keep-me"] }, "Options: regex exclusions");
+    await setSettings(structuredClone(DEFAULTS), "Options: reset to defaults");
+
+    const [beforeReset] = await getHistory();
+    expect(beforeReset.source).toBe("Options: reset to defaults");
+
+    await restoreSnapshot(beforeReset.id);
+    expect((await getSettings()).excludeRegex).toEqual(["keep-me"]);
+
+    const [restore] = await getHistory();
+    expect(restore.source).toMatch(/^Restore of /);
+    expect(restore.settings.excludeRegex).toEqual([]);
+  });
+
+  it("should reject unknown snapshot ids", async () => {
+    await expect(restoreSnapshot("missing")).rejects.toThrow(/No settings snapshot/);
+  });
+
+  it("should clear the ring", async () => {
+    await recordSnapshot(structuredClone(DEFAULTS), "Scheduler");
+    await clearHistory();
+    expect(await getHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,228 @@
+// tests/messages.test.ts
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockBrowser, type MockBrowser } from "./mocks/storage";
+import {
+  createDispatcher,
+  listen,
+  message,
+  parseMessage,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  sendToBackground,
+  sendToTab,
+  type MessageBody,
+  type MessageType
+} from "../src/utils/messages";
+import { backgroundHandlers } from "../src/background/message-handlers";
+import { getTabOverride } from "../src/background/tab-overrides";
+import { getTabStatus } from "../src/background/tab-registry";
+import { getSettings } from "../src/utils/storage";
+import { DEFAULTS } from "../src/utils/defaults";
+
+/** A well-formed body for every message type (the compiler keeps this list complete) */
+const SAMPLES: { [K in MessageType]: MessageBody<K> } = {
+  "udr:get-settings": {},
+  "udr:set-settings": { payload: { ...DEFAULTS, brightness: 70 } },
+  "udr:update-settings": { payload: { contrast: 130 } },
+  "udr:tab-status": { status: { themed: true, reason: "themed", mode: "photon-inverter" } },
+  "udr:get-tab-override": { tabId: 7 },
+  "udr:set-tab-override": { tabId: 7, override: { brightness: 60 } },
+  "udr:get-frame-context": {},
+  "udr:settings-updated": {},
+  "udr:tab-override": { override: { sepia: 30 } },
+  "udr:element-selector": { targetElementId: 12 },
+  "udr:location-changed": {},
+  "udr:frame-context": { context: { url: "https://example.com/page", themed: true, inverted: false } },
+  "udr:debug-mode-changed": { enabled: true }
+};
+const TYPES = Object.keys(SAMPLES) as MessageType[];
+
+/** A body each type must reject (types without a body have nothing to get wrong) */
+const MALFORMED: Partial<Record<MessageType, Record<string, unknown>>> = {
+  "udr:set-settings": { payload: "dark please" },
+  "udr:update-settings": {},
+  "udr:tab-status": { status: { themed: "yes" } },
+  "udr:get-tab-override": { tabId: -1 },
+  "udr:set-tab-override": { tabId: 7 },
+  "udr:tab-override": { override: null },
+  "udr:element-selector": { targetElementId: "12" },
+  "udr:frame-context": { context: { url: "https://example.com/page", themed: true } },
+  "udr:debug-mode-changed": {}
+};
+
+const sample = (type: MessageType) => message(type, SAMPLES[type] as never);
+
+describe("Message protocol", () => {
+  describe("parseMessage", () => {
+    it.each(TYPES)("should accept a well-formed %s", (type) => {
+      const msg = sample(type);
+      expect(msg).toMatchObject({ type, v: PROTOCOL_VERSION });
+      expect(parseMessage(JSON.parse(JSON.stringify(msg)))).toEqual(msg);
+    });
+
+    it.each(Object.entries(MALFORMED))("should reject a malformed %s", (type, body) => {
+      expect(() => parseMessage({ ...body, type, v: PROTOCOL_VERSION })).toThrow(ProtocolError);
+    });
+
+    it("should reject tab statuses with an unknown reason or mode", () => {
+      const status = (fields: Record<string, unknown>) => ({ type: "udr:tab-status", v: PROTOCOL_VERSION, status: { themed: false, ...fields } });
+      expect(() => parseMessage(status({ reason: "bored" }))).toThrow(/status must be a tab status/);
+      expect(() => parseMessage(status({ reason: "toString" }))).toThrow(ProtocolError);
+      expect(() => parseMessage(status({ reason: "themed", mode: "x-ray" }))).toThrow(ProtocolError);
+      expect(parseMessage(status({ reason: "snoozed" }))).toMatchObject({ status: { reason: "snoozed" } });
+    });
+
+    it("should reject unknown types, other versions and non-objects", () => {
+      expect(() => parseMessage({ type: "udr:make-coffee", v: PROTOCOL_VERSION })).toThrow(/unknown message type/);
+      expect(() => parseMessage({ type: "toString", v: PROTOCOL_VERSION })).toThrow(/unknown message type/);
+      expect(() => parseMessage({ type: "udr:get-settings" })).toThrow(/protocol version undefined/);
+      expect(() => parseMessage({ type: "udr:get-settings", v: PROTOCOL_VERSION + 1 })).toThrow(/protocol version/);
+      expect(() => parseMessage("udr:get-settings")).toThrow(ProtocolError);
+      expect(() => parseMessage(null)).toThrow(ProtocolError);
+    });
+  });
+
+  describe("senders", () => {
+    const sendMessage = vi.fn(async () => "reply");
+    const tabsSendMessage = vi.fn(async () => "reply");
+
+    beforeEach(() => {
+      sendMessage.mockClear();
+      tabsSendMessage.mockClear();
+      // @ts-expect-error - mocking browser global
+      globalThis.browser = { runtime: { sendMessage }, tabs: { sendMessage: tabsSendMessage } };
+    });
+
+    it("should version messages to the background", async () => {
+      await expect(sendToBackground("udr:get-settings")).resolves.toBe("reply");
+      await sendToBackground("udr:debug-mode-changed", { enabled: false });
+      expect(sendMessage).toHaveBeenNthCalledWith(1, { type: "udr:get-settings", v: PROTOCOL_VERSION });
+      expect(sendMessage).toHaveBeenNthCalledWith(2, { type: "udr:debug-mode-changed", v: PROTOCOL_VERSION, enabled: false });
+    });
+
+    it("should address a tab, and a frame when given", async () => {
+      await sendToTab(4, "udr:settings-updated");
+      await sendToTab(4, "udr:element-selector", { targetElementId: 9 }, { frameId: 2 });
+      expect(tabsSendMessage).toHaveBeenNthCalledWith(1, 4, { type: "udr:settings-updated", v: PROTOCOL_VERSION });
+      expect(tabsSendMessage).toHaveBeenNthCalledWith(2, 4, { type: "udr:element-selector", v: PROTOCOL_VERSION, targetElementId: 9 }, { frameId: 2 });
+    });
+  });
+
+  describe("dispatcher", () => {
+    beforeEach(() => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    it("should route each message to its handler with the sender", async () => {
+      const handler = vi.fn(() => ".ad");
+      const dispatch = createDispatcher("test", { "udr:element-selector": handler });
+      const sender = { tab: { id: 3, url: "https://example.com/" } };
+      await expect(dispatch(sample("udr:element-selector"), sender)).resolves.toBe(".ad");
+      expect(handler).toHaveBeenCalledWith(sample("udr:element-selector"), sender);
+    });
+
+    it("should leave messages for other contexts unanswered", () => {
+      const dispatch = createDispatcher("test", {});
+      for (const type of TYPES) expect(dispatch(sample(type), {})).toBeUndefined();
+    });
+
+    it("should reject malformed messages instead of ignoring them", async () => {
+      const handler = vi.fn();
+      const dispatch = createDispatcher("test", { "udr:debug-mode-changed": handler });
+      await expect(dispatch({ type: "udr:debug-mode-changed", v: PROTOCOL_VERSION }, {})).rejects.toThrow(ProtocolError);
+      await expect(dispatch({ type: "udr:nope", v: PROTOCOL_VERSION }, {})).rejects.toThrow(ProtocolError);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should register one runtime listener and remove it again", () => {
+      const onMessage = { addListener: vi.fn(), removeListener: vi.fn() };
+      // @ts-expect-error - mocking browser global
+      globalThis.browser = { runtime: { onMessage } };
+      const stop = listen("test", {});
+      expect(onMessage.addListener).toHaveBeenCalledTimes(1);
+      stop();
+      expect(onMessage.removeListener).toHaveBeenCalledWith(onMessage.addListener.mock.calls[0][0]);
+    });
+  });
+
+  describe("background handlers", () => {
+    let mockBrowser: MockBrowser & Record<string, unknown>;
+    const dispatch = createDispatcher("background", backgroundHandlers);
+    const fromTab = { tab: { id: 7, url: "https://example.com/page" } };
+
+    beforeEach(() => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockBrowser = {
+        ...createMockBrowser(),
+        tabs: {
+          get: vi.fn(async (id: number) => ({ id, url: "https://example.com/page" })),
+          sendMessage: vi.fn(async () => {})
+        },
+        browserAction: {
+          setBadgeText: vi.fn(async () => {}),
+          setBadgeBackgroundColor: vi.fn(async () => {}),
+          setTitle: vi.fn(async () => {}),
+          setIcon: vi.fn(async () => {})
+        }
+      };
+      // @ts-expect-error - mocking browser global
+      globalThis.browser = mockBrowser;
+    });
+
+    it("should answer udr:get-settings with the stored settings", async () => {
+      await expect(dispatch(sample("udr:get-settings"), {})).resolves.toEqual(await getSettings());
+    });
+
+    it("should save udr:set-settings and udr:update-settings, or report why not", async () => {
+      await expect(dispatch(sample("udr:set-settings"), {})).resolves.toEqual({ ok: true });
+      await expect(dispatch(sample("udr:update-settings"), {})).resolves.toEqual({ ok: true });
+      expect(await getSettings()).toMatchObject({ brightness: 70, contrast: 130 });
+
+      const rejected = await dispatch(message("udr:update-settings", { payload: { contrast: 900 } }), {});
+      expect(rejected).toMatchObject({ ok: false, errors: [expect.objectContaining({ path: expect.stringContaining("contrast") })] });
+    });
+
+    it("should record udr:tab-status for the sending tab and pass it on to its frames", async () => {
+      await dispatch(sample("udr:tab-status"), fromTab);
+      expect(getTabStatus(7)?.mode).toBe("photon-inverter");
+      const tabs = mockBrowser.tabs as { sendMessage: ReturnType<typeof vi.fn> };
+      const context = { url: "https://example.com/page", themed: true, inverted: true };
+      expect(tabs.sendMessage).toHaveBeenCalledWith(7, message("udr:frame-context", { context }));
+    });
+
+    it("should answer udr:get-frame-context from the top frame's status", async () => {
+      const child = { tab: { id: 8, url: "https://example.com/article" }, frameId: 3 };
+      await expect(dispatch(sample("udr:get-frame-context"), child)).resolves.toBeNull();
+
+      await dispatch(message("udr:tab-status", { status: { themed: true, reason: "themed", mode: "dom-walker" } }), child);
+      await expect(dispatch(sample("udr:get-frame-context"), child)).resolves.toEqual({
+        url: "https://example.com/article",
+        themed: true,
+        inverted: false
+      });
+      await expect(dispatch(sample("udr:get-frame-context"), {})).resolves.toBeNull();
+    });
+
+    it("should set and read tab overrides from the popup and the tab itself", async () => {
+      await expect(dispatch(sample("udr:set-tab-override"), {})).resolves.toEqual({ ok: true, override: { brightness: 60 } });
+      const tabs = mockBrowser.tabs as { sendMessage: ReturnType<typeof vi.fn> };
+      expect(tabs.sendMessage).toHaveBeenCalledWith(7, message("udr:tab-override", { override: { brightness: 60 } }));
+      await expect(dispatch(sample("udr:get-tab-override"), {})).resolves.toEqual({ brightness: 60 });
+      await expect(dispatch(message("udr:get-tab-override"), fromTab)).resolves.toEqual({ brightness: 60 });
+
+      const invalid = message("udr:set-tab-override", { tabId: 7, override: { brightness: 900 } });
+      await expect(dispatch(invalid, {})).resolves.toMatchObject({ ok: false });
+      expect(getTabOverride(7)).toEqual({ brightness: 60 });
+    });
+
+    it("should accept udr:debug-mode-changed", async () => {
+      await expect(dispatch(sample("udr:debug-mode-changed"), {})).resolves.toBeUndefined();
+    });
+
+    it("should leave messages meant for content scripts alone", () => {
+      for (const type of ["udr:settings-updated", "udr:tab-override", "udr:element-selector", "udr:frame-context"] as const) {
+        expect(dispatch(sample(type), {})).toBeUndefined();
+      }
+    });
+  });
+});
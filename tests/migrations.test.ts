@@ -0,0 +1,214 @@
+// tests/migrations.test.ts
+import { describe, it, expect, beforeEach } from "vitest";
+import { createMockBrowser } from "./mocks/storage";
+import { MIGRATIONS, migrateSettings, storedVersion } from "../src/utils/migrations";
+import { SCHEMA_VERSION } from "../src/utils/defaults";
+
+const step = (version: number) => MIGRATIONS.find((m) => m.version === version)!;
+
+describe("Settings migrations", () => {
+  it("should define one step per schema version in ascending order", () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(
+      Array.from({ length: SCHEMA_VERSION }, (_, i) => i + 1)
+    );
+  });
+
+  describe("v1: legacy mode names", () => {
+    it("should map architect to photon-inverter and surgeon to dom-walker", () => {
+      expect(step(1).migrate({ mode: "architect" }).mode).toBe("photon-inverter");
+      expect(step(1).migrate({ mode: "surgeon" }).mode).toBe("dom-walker");
+    });
+
+    it("should leave current mode names untouched", () => {
+      expect(step(1).migrate({ mode: "chroma-semantic" }).mode).toBe("chroma-semantic");
+    });
+
+    it("should upgrade modes inside per-site overrides", () => {
+      const out = step(1).migrate({
+        perSite: { "https://a.com": { override: { mode: "surgeon" } } }
+      });
+      expect(out.perSite).toEqual({ "https://a.com": { override: { mode: "dom-walker" } } });
+    });
+  });
+
+  describe("v2: missing nested fields", () => {
+    it("should create perSite, excludeRegex and schedule when absent", () => {
+      const out = step(2).migrate({});
+      expect(out.perSite).toEqual({});
+      expect(out.excludeRegex).toEqual([]);
+      expect(out.schedule).toEqual({ enabled: false, start: "21:00", end: "07:00" });
+    });
+
+    it("should complete a partial schedule without overwriting stored values", () => {
+      const out = step(2).migrate({ schedule: { enabled: true, start: "20:00" } });
+      expect(out.schedule).toEqual({ enabled: true, start: "20:00", end: "07:00" });
+    });
+
+    it("should split a newline-joined excludeRegex string", () => {
+      const out = step(2).migrate({ excludeRegex: "example.com\n\n /foo/i \n" });
+      expect(out.excludeRegex).toEqual(["example.com", "/foo/i"]);
+    });
+
+    it("should replace malformed per-site entries with empty overrides", () => {
+      const out = step(2).migrate({ perSite: { "https://a.com": true, "https://b.com": { exclude: true } } });
+      expect(out.perSite).toEqual({ "https://a.com": {}, "https://b.com": { exclude: true } });
+    });
+  });
+
+  describe("v3: renamed keys", () => {
+    it("should rename optimizer and detectDark", () => {
+      const out = step(3).migrate({ optimizer: false, detectDark: false });
+      expect(out).toEqual({ optimizerEnabled: false, detectDarkSites: false });
+    });
+
+    it("should not clobber a value already stored under the new name", () => {
+      const out = step(3).migrate({ optimizer: false, optimizerEnabled: true });
+      expect(out).toEqual({ optimizerEnabled: true });
+    });
+
+    it("should rename forceDark in per-site entries", () => {
+      const out = step(3).migrate({ perSite: { "https://a.com": { forceDark: true } } });
+      expect(out.perSite).toEqual({ "https://a.com": { forceDarkMode: true } });
+    });
+  });
+
+  describe("v4: canonical site keys", () => {
+    it("should rewrite keys to their canonical form", () => {
+      const out = step(4).migrate({
+        perSite: {
+          "https://WWW.Example.com": { exclude: true },
+          "https://bücher.de": { enabled: true },
+          "http://localhost:3000": { forceDarkMode: true }
+        }
+      });
+      expect(out.perSite).toEqual({
+        "https://example.com": { exclude: true },
+        "https://xn--bcher-kva.de": { enabled: true },
+        "http://localhost:3000": { forceDarkMode: true }
+      });
+    });
+
+    it("should merge colliding entries, letting the already-canonical key win", () => {
+      const out = step(4).migrate({
+        perSite: {
+          "https://example.com": { enabled: true, override: { brightness: 70 } },
+          "https://www.example.com": { enabled: false, forceDarkMode: true, override: { brightness: 50, sepia: 20 } }
+        }
+      });
+      expect(out.perSite).toEqual({
+        "https://example.com": { enabled: true, forceDarkMode: true, override: { brightness: 70, sepia: 20 } }
+      });
+    });
+
+    it("should canonicalise wildcard and path keys without touching a www. under a wildcard", () => {
+      const out = step(4).migrate({
+        perSite: {
+          "*.Example.com/docs": { exclude: true },
+          "*.www.example.org": { enabled: false },
+          "https://www.example.net/": { forceDarkMode: true }
+        }
+      });
+      expect(out.perSite).toEqual({
+        "*.example.com/docs": { exclude: true },
+        "*.www.example.org": { enabled: false },
+        "https://example.net": { forceDarkMode: true }
+      });
+    });
+
+    it("should leave unparseable keys for validation to report", () => {
+      const out = step(4).migrate({ perSite: { "not a rule": {} } });
+      expect(out.perSite).toEqual({ "not a rule": {} });
+    });
+  });
+
+  describe("v5: schedule windows", () => {
+    it("should turn start/end into an every-day window", () => {
+      const out = step(5).migrate({ schedule: { enabled: true, kind: "fixed", start: "22:00", end: "06:30" } });
+      expect(out.schedule).toEqual({
+        enabled: true,
+        kind: "fixed",
+        windows: [{ days: [0, 1, 2, 3, 4, 5, 6], start: "22:00", end: "06:30" }]
+      });
+    });
+
+    it("should leave schedules that already have windows alone", () => {
+      const schedule = { enabled: false, windows: [] };
+      expect(step(5).migrate({ schedule }).schedule).toBe(schedule);
+    });
+  });
+
+  describe("migrateSettings", () => {
+    it("should treat unversioned data as version 0 and run every step", () => {
+      const { settings, changed } = migrateSettings({ mode: "architect", optimizer: false });
+      expect(changed).toBe(true);
+      expect(settings.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(settings.mode).toBe("photon-inverter");
+      expect(settings.optimizerEnabled).toBe(false);
+      expect(settings.perSite).toEqual({});
+    });
+
+    it("should only run steps newer than the stored version", () => {
+      // A v2 object should not have its mode touched by the v1 step
+      const { settings } = migrateSettings({ schemaVersion: 2, mode: "architect", detectDark: false });
+      expect(settings.mode).toBe("architect");
+      expect(settings.detectDarkSites).toBe(false);
+    });
+
+    it("should report no change for current data", () => {
+      const current = { schemaVersion: SCHEMA_VERSION, mode: "dom-walker" };
+      const { settings, changed } = migrateSettings(current);
+      expect(changed).toBe(false);
+      expect(settings).toEqual(current);
+    });
+
+    it("should tolerate non-object input", () => {
+      expect(migrateSettings(undefined).settings.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(migrateSettings("garbage").settings.perSite).toEqual({});
+    });
+
+    it("should read missing or invalid versions as 0", () => {
+      expect(storedVersion({})).toBe(0);
+      expect(storedVersion({ schemaVersion: "2" })).toBe(0);
+      expect(storedVersion({ schemaVersion: 2 })).toBe(2);
+    });
+  });
+
+  describe("runMigrations", () => {
+    const mockBrowser = createMockBrowser();
+    const store = mockBrowser.storage.sync.data;
+
+    beforeEach(() => {
+      mockBrowser.storage.sync.reset();
+      mockBrowser.storage.local.reset();
+      // @ts-expect-error - mocking browser global
+      globalThis.browser = mockBrowser;
+    });
+
+    it("should persist upgraded settings once", async () => {
+      const { runMigrations } = await import("../src/utils/storage");
+      store.settings = { mode: "surgeon" };
+
+      expect(await runMigrations()).toBe(true);
+      expect(store.settings).toMatchObject({ schemaVersion: SCHEMA_VERSION, mode: "dom-walker" });
+
+      expect(await runMigrations()).toBe(false);
+      expect(mockBrowser.storage.sync.set).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not write anything on a fresh install", async () => {
+      const { runMigrations } = await import("../src/utils/storage");
+      expect(await runMigrations()).toBe(false);
+      expect(mockBrowser.storage.sync.set).not.toHaveBeenCalled();
+    });
+
+    it("should upgrade legacy data in memory on read", async () => {
+      const { getSettings } = await import("../src/utils/storage");
+      store.settings = { mode: "architect", brightness: 80 };
+
+      const s = await getSettings();
+      expect(s.mode).toBe("photon-inverter");
+      expect(s.brightness).toBe(80);
+      expect(s.schemaVersion).toBe(SCHEMA_VERSION);
+    });
+  });
+});
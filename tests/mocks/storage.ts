@@ -0,0 +1,116 @@
+// tests/mocks/storage.ts
+import { vi } from "vitest";
+
+/**
+ * In-memory browser.storage areas for unit tests
+ * The sync area enforces Firefox's quotas so quota handling can be exercised.
+ */
+
+export interface QuotaLimits {
+  quotaBytes: number;        // QUOTA_BYTES
+  quotaBytesPerItem: number; // QUOTA_BYTES_PER_ITEM
+  maxItems: number;          // MAX_ITEMS
+}
+
+export const SYNC_QUOTA: QuotaLimits = {
+  quotaBytes: 102400,
+  quotaBytesPerItem: 8192,
+  maxItems: 512
+};
+
+type Changes = Record<string, { oldValue?: unknown; newValue?: unknown }>;
+type Keys = null | undefined | string | string[] | Record<string, unknown>;
+
+function itemBytes(key: string, value: unknown): number {
+  return key.length + JSON.stringify(value).length;
+}
+
+/** `onChange` receives storage.onChanged-style change records after every write */
+export function createStorageArea(limits?: QuotaLimits, onChange?: (changes: Changes) => void) {
+  const data: Record<string, unknown> = {};
+  const clone = <T>(v: T): T => (v === undefined ? v : JSON.parse(JSON.stringify(v)));
+
+  const area = {
+    data,
+    get: vi.fn(async (keys?: Keys) => {
+      const out: Record<string, unknown> = {};
+      if (keys === null || keys === undefined) {
+        for (const k of Object.keys(data)) out[k] = clone(data[k]);
+      } else if (typeof keys === "string" || Array.isArray(keys)) {
+        for (const k of typeof keys === "string" ? [keys] : keys) {
+          if (k in data) out[k] = clone(data[k]);
+        }
+      } else {
+        for (const [k, fallback] of Object.entries(keys)) out[k] = k in data ? clone(data[k]) : fallback;
+      }
+      return out;
+    }),
+    set: vi.fn(async (items: Record<string, unknown>) => {
+      if (limits) {
+        const next = { ...data, ...items };
+        for (const [k, v] of Object.entries(items)) {
+          if (itemBytes(k, v) > limits.quotaBytesPerItem) {
+            throw new Error(`QuotaExceededError: storage.sync API call exceeded its quota limitations (item "${k}")`);
+          }
+        }
+        if (Object.keys(next).length > limits.maxItems) {
+          throw new Error("QuotaExceededError: storage.sync API call exceeded its quota limitations (MAX_ITEMS)");
+        }
+        const total = Object.entries(next).reduce((sum, [k, v]) => sum + itemBytes(k, v), 0);
+        if (total > limits.quotaBytes) {
+          throw new Error("QuotaExceededError: storage.sync API call exceeded its quota limitations (QUOTA_BYTES)");
+        }
+      }
+      const changes: Changes = {};
+      for (const [k, v] of Object.entries(items)) {
+        changes[k] = { oldValue: data[k], newValue: clone(v) };
+        data[k] = clone(v);
+      }
+      onChange?.(changes);
+    }),
+    remove: vi.fn(async (keys: string | string[]) => {
+      const changes: Changes = {};
+      for (const k of typeof keys === "string" ? [keys] : keys) {
+        if (!(k in data)) continue;
+        changes[k] = { oldValue: data[k] };
+        delete data[k];
+      }
+      if (Object.keys(changes).length) onChange?.(changes);
+    }),
+    clear: vi.fn(async () => {
+      for (const k of Object.keys(data)) delete data[k];
+    }),
+    reset() {
+      for (const k of Object.keys(data)) delete data[k];
+      for (const fn of [area.get, area.set, area.remove, area.clear]) fn.mockClear();
+    }
+  };
+
+  return area;
+}
+
+/**
+ * A `browser` global with quota-enforcing sync and unlimited local storage
+ * storage.onChanged fires synchronously after each set/remove that changes something.
+ */
+export function createMockBrowser(syncLimits: QuotaLimits = SYNC_QUOTA) {
+  type Listener = (changes: Changes, areaName: string) => void;
+  const listeners = new Set<Listener>();
+  const emit = (areaName: string) => (changes: Changes) => {
+    for (const l of [...listeners]) l(changes, areaName);
+  };
+
+  return {
+    storage: {
+      sync: createStorageArea(syncLimits, emit("sync")),
+      local: createStorageArea(undefined, emit("local")),
+      onChanged: {
+        addListener: vi.fn((l: Listener) => void listeners.add(l)),
+        removeListener: vi.fn((l: Listener) => void listeners.delete(l)),
+        hasListener: (l: Listener) => listeners.has(l)
+      }
+    }
+  };
+}
+
+export type MockBrowser = ReturnType<typeof createMockBrowser>;
@@ -0,0 +1,85 @@
+// tests/paint-cache.test.ts
+import { describe, it, expect, beforeEach } from "vitest";
+import { createMockBrowser, type MockBrowser } from "./mocks/storage";
+import {
+  getPaintDecision,
+  PAINT_BACKGROUND,
+  PAINT_BACKGROUND_AMOLED,
+  PAINT_CACHE_LIMIT,
+  rememberPaintDecision,
+  themedPaint
+} from "../src/utils/paint-cache";
+import { buildPreInjectCss } from "../src/content/style-template";
+import { DEFAULTS } from "../src/utils/defaults";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Paint cache", () => {
+  let mockBrowser: MockBrowser;
+
+  beforeEach(() => {
+    mockBrowser = createMockBrowser();
+    // @ts-expect-error - mocking browser global
+    globalThis.browser = mockBrowser;
+  });
+
+  it("should derive the first paint from the applied settings", () => {
+    expect(themedPaint({ ...DEFAULTS, mode: "dom-walker", amoled: false })).toEqual({
+      themed: true,
+      mode: "dom-walker",
+      background: PAINT_BACKGROUND
+    });
+    expect(themedPaint({ ...DEFAULTS, amoled: true }).background).toBe(PAINT_BACKGROUND_AMOLED);
+  });
+
+  it("should remember the decision per site, not per page", async () => {
+    const paint = themedPaint({ ...DEFAULTS, amoled: true });
+    await rememberPaintDecision("https://www.example.com/a", paint);
+    await rememberPaintDecision("https://dark.example.org/", { themed: false });
+
+    expect(await getPaintDecision("https://example.com/b?c")).toEqual(paint);
+    expect(await getPaintDecision("https://dark.example.org/x")).toEqual({ themed: false });
+    expect(await getPaintDecision("https://unseen.example.net/")).toBeNull();
+    expect(await getPaintDecision("about:blank")).toBeNull();
+  });
+
+  it("should only write when the decision changes or the entry is a day old", async () => {
+    const paint = themedPaint(DEFAULTS);
+    await rememberPaintDecision("https://example.com/", paint, 1000);
+    await rememberPaintDecision("https://example.com/other", paint, 2000);
+    expect(mockBrowser.storage.local.set).toHaveBeenCalledTimes(1);
+
+    await rememberPaintDecision("https://example.com/", { themed: false }, 3000);
+    await rememberPaintDecision("https://example.com/", { themed: false }, 3000 + DAY);
+    expect(mockBrowser.storage.local.set).toHaveBeenCalledTimes(3);
+  });
+
+  it("should drop the least recently seen sites beyond the limit", async () => {
+    for (let i = 0; i <= PAINT_CACHE_LIMIT; i++) {
+      await rememberPaintDecision(`https://site${i}.example.com/`, { themed: false }, 1000 + i);
+    }
+    const cache = mockBrowser.storage.local.data.paintCache as Record<string, unknown>;
+    expect(Object.keys(cache)).toHaveLength(PAINT_CACHE_LIMIT);
+    expect(await getPaintDecision("https://site0.example.com/")).toBeNull();
+    expect(await getPaintDecision(`https://site${PAINT_CACHE_LIMIT}.example.com/`)).toEqual({ themed: false });
+  });
+
+  it("should never touch synced storage", async () => {
+    await rememberPaintDecision("https://example.com/", themedPaint(DEFAULTS));
+    expect(mockBrowser.storage.sync.set).not.toHaveBeenCalled();
+  });
+
+  describe("buildPreInjectCss", () => {
+    it("should paint the cached background", () => {
+      const css = buildPreInjectCss(PAINT_BACKGROUND_AMOLED, "chroma-semantic");
+      expect(css).toContain(`background-color: ${PAINT_BACKGROUND_AMOLED} !important`);
+      expect(css).toMatch(/^html,$/m);
+    });
+
+    it("should step aside once the photon inverter's filter applies", () => {
+      const css = buildPreInjectCss(PAINT_BACKGROUND, "photon-inverter");
+      expect(css).toContain('html:not([udr-applied="true"]) body');
+      expect(css).not.toMatch(/^html,$/m);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+// tests/ramp.test.ts
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockBrowser, type MockBrowser } from "./mocks/storage";
+import { DEFAULTS } from "../src/utils/defaults";
+import { getHistory } from "../src/utils/history";
+import { applyRamp, getRampState, onRampChanged, setRampProgress } from "../src/utils/ramp";
+import { setSettings } from "../src/utils/storage";
+import { applyScheduleTick } from "../src/background/scheduler";
+
+let mockBrowser: MockBrowser;
+
+// 2024-06-07 is a Friday; the default schedule runs 21:00 -> 07:00 every day
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 5, day, hours, minutes);
+
+describe("Schedule ramp", () => {
+  beforeEach(() => {
+    mockBrowser = createMockBrowser();
+    // @ts-expect-error - mocking browser global
+    globalThis.browser = mockBrowser;
+  });
+
+  describe("applyRamp", () => {
+    const night = { ...structuredClone(DEFAULTS), brightness: 70, sepia: 40, blueShift: 60, contrast: 130 };
+
+    it("should move blueShift, sepia and brightness from day towards night values", () => {
+      expect(applyRamp(night, { progress: 0 })).toMatchObject({ brightness: 100, sepia: 0, blueShift: 0 });
+      expect(applyRamp(night, { progress: 0.5 })).toMatchObject({ brightness: 85, sepia: 20, blueShift: 30 });
+      expect(applyRamp(night, { progress: 1 })).toMatchObject({ brightness: 70, sepia: 40, blueShift: 60 });
+    });
+
+    it("should leave everything else alone", () => {
+      const ramped = applyRamp(night, { progress: 0.25 });
+      expect(ramped.contrast).toBe(130);
+      expect(ramped.mode).toBe(night.mode);
+      expect(night.brightness).toBe(70);
+    });
+
+    it("should pass settings through when no ramp is running", () => {
+      expect(applyRamp(night, null)).toBe(night);
+    });
+  });
+
+  it("should only write the progress when it changes", async () => {
+    await setRampProgress(0.5);
+    await setRampProgress(0.5);
+    expect(mockBrowser.storage.local.set).toHaveBeenCalledTimes(1);
+    expect(await getRampState()).toEqual({ progress: 0.5 });
+
+    await setRampProgress(null);
+    await setRampProgress(null);
+    expect(mockBrowser.storage.local.remove).toHaveBeenCalledTimes(1);
+    expect(await getRampState()).toBeNull();
+  });
+
+  it("should notify listeners with the new state", async () => {
+    const listener = vi.fn();
+    onRampChanged(listener);
+    await setRampProgress(0.2);
+    await setRampProgress(null);
+    expect(listener.mock.calls).toEqual([[{ progress: 0.2 }], [null]]);
+  });
+
+  it("should step the ramp in storage.local without touching sync or history", async () => {
+    const schedule = { ...DEFAULTS.schedule, enabled: true, kind: "fixed" as const, ramp: { enabled: true, minutes: 30 } };
+    await setSettings({ ...structuredClone(DEFAULTS), enabled: true, schedule }, "Options: schedule");
+    const historyBefore = (await getHistory()).length;
+    mockBrowser.storage.sync.set.mockClear();
+
+    for (let minute = 1; minute <= 10; minute++) {
+      await applyScheduleTick(at(7, 21, minute));
+    }
+    expect(await getRampState()).toEqual({ progress: 10 / 30 });
+    expect(mockBrowser.storage.sync.set).not.toHaveBeenCalled();
+    expect(await getHistory()).toHaveLength(historyBefore);
+
+    await applyScheduleTick(at(7, 22));
+    expect(await getRampState()).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+// tests/route-watcher.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { JSDOM } from "jsdom";
+import { ROUTE_SETTLE_MS, watchRoute, type RouteWatcher } from "../src/content/route-watcher";
+
+describe("Route watcher", () => {
+  let dom: JSDOM;
+  let watcher: RouteWatcher;
+  const onChange = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    onChange.mockReset();
+    dom = new JSDOM("<!doctype html><body></body>", { url: "https://app.example.com/inbox" });
+    // @ts-expect-error - the watcher reads the content script's globals
+    globalThis.window = dom.window;
+    globalThis.location = dom.window.location;
+    watcher = watchRoute(onChange);
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    vi.useRealTimers();
+    // @ts-expect-error - cleaning up mocked globals
+    delete globalThis.window;
+    // @ts-expect-error - cleaning up mocked globals
+    delete globalThis.location;
+  });
+
+  it("should report a pushState navigation once the route settles", () => {
+    dom.window.history.pushState({}, "", "/settings");
+    watcher.check();
+    expect(onChange).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(ROUTE_SETTLE_MS);
+    expect(onChange).toHaveBeenCalledWith("https://app.example.com/settings", "https://app.example.com/inbox");
+  });
+
+  it("should ignore checks while the URL is unchanged", () => {
+    watcher.check();
+    watcher.check();
+    vi.advanceTimersByTime(ROUTE_SETTLE_MS);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should collapse quick successive navigations into one change", () => {
+    dom.window.history.pushState({}, "", "/login");
+    watcher.check();
+    vi.advanceTimersByTime(ROUTE_SETTLE_MS / 2);
+    dom.window.history.replaceState({}, "", "/dashboard");
+    watcher.check();
+    vi.advanceTimersByTime(ROUTE_SETTLE_MS);
+
+    expect(onChange).toHaveBeenCalledOnce();
+    expect(onChange).toHaveBeenCalledWith("https://app.example.com/dashboard", "https://app.example.com/inbox");
+  });
+
+  it("should not report a navigation that comes back to where it started", () => {
+    dom.window.history.pushState({}, "", "/draft");
+    watcher.check();
+    dom.window.history.replaceState({}, "", "/inbox");
+    watcher.check();
+    vi.advanceTimersByTime(ROUTE_SETTLE_MS);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should pick up hashchange and popstate on its own", () => {
+    dom.window.location.hash = "#/thread/42";
+    dom.window.dispatchEvent(new dom.window.HashChangeEvent("hashchange"));
+    vi.advanceTimersByTime(ROUTE_SETTLE_MS);
+    expect(onChange).toHaveBeenLastCalledWith("https://app.example.com/inbox#/thread/42", "https://app.example.com/inbox");
+
+    dom.window.history.replaceState({}, "", "/archive");
+    dom.window.dispatchEvent(new dom.window.PopStateEvent("popstate"));
+    vi.advanceTimersByTime(ROUTE_SETTLE_MS);
+    expect(onChange).toHaveBeenLastCalledWith("https://app.example.com/archive", "https://app.example.com/inbox#/thread/42");
+  });
+
+  it("should stop listening and drop a pending change on stop()", () => {
+    dom.window.history.pushState({}, "", "/settings");
+    watcher.check();
+    watcher.stop();
+    vi.advanceTimersByTime(ROUTE_SETTLE_MS);
+
+    dom.window.history.replaceState({}, "", "/archive");
+    dom.window.dispatchEvent(new dom.window.PopStateEvent("popstate"));
+    vi.advanceTimersByTime(ROUTE_SETTLE_MS);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+// tests/schedule-alarm.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createMockBrowser, type MockBrowser } from "./mocks/storage";
+import { DEFAULTS } from "../src/utils/defaults";
+import { getSettings, setSettings } from "../src/utils/storage";
+import { planScheduleAlarm, runSchedule, SCHEDULE_ALARM } from "../src/background/scheduler";
+
+type Browser = MockBrowser & {
+  alarms: { create: ReturnType<typeof vi.fn>; clear: ReturnType<typeof vi.fn> };
+};
+let mockBrowser: Browser;
+
+// 2024-06-07 is a Friday; the default schedule runs 21:00 -> 07:00 every day
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 5, day, hours, minutes);
+
+describe("Schedule alarm", () => {
+  beforeEach(() => {
+    mockBrowser = {
+      ...createMockBrowser(),
+      alarms: { create: vi.fn(), clear: vi.fn(async () => true) }
+    };
+    // @ts-expect-error - mocking browser global
+    globalThis.browser = mockBrowser;
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should set a one-shot alarm for the next transition", async () => {
+    await setSettings({ ...structuredClone(DEFAULTS), schedule: { ...DEFAULTS.schedule, enabled: true, kind: "fixed" } }, "Options: schedule");
+    await planScheduleAlarm(at(7, 12));
+    expect(mockBrowser.alarms.clear).toHaveBeenCalledWith(SCHEDULE_ALARM);
+    expect(mockBrowser.alarms.create).toHaveBeenCalledWith(SCHEDULE_ALARM, { when: at(7, 21).getTime() });
+    expect(mockBrowser.alarms.create.mock.calls[0][1]).not.toHaveProperty("periodInMinutes");
+  });
+
+  it("should only clear the alarm while the schedule is off", async () => {
+    await setSettings(structuredClone(DEFAULTS), "Options: schedule");
+    await planScheduleAlarm(at(7, 12));
+    expect(mockBrowser.alarms.clear).toHaveBeenCalledWith(SCHEDULE_ALARM);
+    expect(mockBrowser.alarms.create).not.toHaveBeenCalled();
+  });
+
+  it("should apply the schedule and then plan the following boundary", async () => {
+    await setSettings({ ...structuredClone(DEFAULTS), enabled: false, schedule: { ...DEFAULTS.schedule, enabled: true, kind: "fixed" } }, "Options: schedule");
+    vi.setSystemTime(at(7, 21));
+    await runSchedule();
+    expect((await getSettings()).enabled).toBe(true);
+    expect(mockBrowser.alarms.create).toHaveBeenLastCalledWith(SCHEDULE_ALARM, { when: at(8, 7).getTime() });
+  });
+});
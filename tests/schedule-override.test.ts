@@ -0,0 +1,82 @@
+// tests/schedule-override.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createMockBrowser, type MockBrowser } from "./mocks/storage";
+import { DEFAULTS } from "../src/utils/defaults";
+import type { Settings } from "../src/types/settings";
+import { getSettings, setSettings } from "../src/utils/storage";
+import { clearScheduleOverride, getScheduleOverride, holdScheduleOverride } from "../src/utils/schedule-override";
+import { applyScheduleTick } from "../src/background/scheduler";
+
+let mockBrowser: MockBrowser;
+
+// 2024-06-07 is a Friday; the default schedule runs 21:00 -> 07:00 every day
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 5, day, hours, minutes);
+
+function scheduled(enabled: boolean): Settings {
+  return { ...structuredClone(DEFAULTS), enabled, schedule: { ...structuredClone(DEFAULTS.schedule), enabled: true, kind: "fixed" } };
+}
+
+describe("Schedule override", () => {
+  beforeEach(() => {
+    mockBrowser = createMockBrowser();
+    // @ts-expect-error - mocking browser global
+    globalThis.browser = mockBrowser;
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should hold a manual flip until the next transition", async () => {
+    const s = scheduled(true);
+    const override = await holdScheduleOverride(s.schedule, false, at(7, 22));
+    expect(override).toEqual({ enabled: false, until: at(8, 7).getTime(), since: at(7, 22).getTime() });
+    expect(mockBrowser.storage.local.data.scheduleOverride).toBeDefined();
+    expect(Object.keys(mockBrowser.storage.sync.data)).not.toContain("scheduleOverride");
+  });
+
+  it("should not record an override that agrees with the schedule", async () => {
+    const s = scheduled(true);
+    await holdScheduleOverride(s.schedule, false, at(7, 22));
+    // Switching back on at night cancels the override
+    expect(await holdScheduleOverride(s.schedule, true, at(7, 22, 5))).toBeNull();
+    expect(await getScheduleOverride(at(7, 22, 5).getTime())).toBeNull();
+  });
+
+  it("should drop an expired override", async () => {
+    const s = scheduled(true);
+    await holdScheduleOverride(s.schedule, false, at(7, 22));
+    expect(await getScheduleOverride(at(8, 6, 59).getTime())).not.toBeNull();
+    expect(await getScheduleOverride(at(8, 7).getTime())).toBeNull();
+    expect(mockBrowser.storage.local.data.scheduleOverride).toBeUndefined();
+  });
+
+  it("should keep the scheduler from undoing the flip until the boundary", async () => {
+    vi.setSystemTime(at(7, 22));
+    await setSettings(scheduled(false), "Popup: on/off toggle");
+    await holdScheduleOverride((await getSettings()).schedule, false);
+
+    vi.setSystemTime(at(8, 3));
+    await applyScheduleTick();
+    expect((await getSettings()).enabled).toBe(false);
+
+    // 07:00 ends the night anyway; at 21:00 the schedule is back in charge
+    vi.setSystemTime(at(8, 7, 1));
+    await applyScheduleTick();
+    expect(await getScheduleOverride()).toBeNull();
+    vi.setSystemTime(at(8, 21, 1));
+    await applyScheduleTick();
+    expect((await getSettings()).enabled).toBe(true);
+  });
+
+  it("should let the schedule apply again once resumed", async () => {
+    vi.setSystemTime(at(7, 22));
+    await setSettings(scheduled(false), "Popup: on/off toggle");
+    await holdScheduleOverride((await getSettings()).schedule, false);
+    await clearScheduleOverride();
+
+    await applyScheduleTick();
+    expect((await getSettings()).enabled).toBe(true);
+  });
+});
@@ -0,0 +1,229 @@
+// tests/scheduler.test.ts
+import { describe, it, expect, afterEach } from "vitest";
+import { nextScheduleCheck, nextTransition, previousTransition, rampProgress, scheduleActive, withinAnyWindow, withinWindow } from "../src/utils/schedule";
+import { DEFAULTS } from "../src/utils/defaults";
+import type { Schedule, ScheduleWindow } from "../src/types/settings";
+
+// 2024-06-07 is a Friday; local-time constructor keeps these independent of TZ
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 5, day, hours, minutes);
+const FRI = 7, SAT = 8, SUN = 9, MON = 10;
+
+describe("withinWindow", () => {
+  it("should keep the old every-day behaviour without days", () => {
+    expect(withinWindow("21:00", "07:00", at(FRI, 23))).toBe(true);
+    expect(withinWindow("21:00", "07:00", at(FRI, 12))).toBe(false);
+    expect(withinWindow("09:00", "17:00", at(FRI, 12))).toBe(true);
+  });
+
+  it("should only match same-day windows on the listed weekdays", () => {
+    expect(withinWindow("09:00", "17:00", at(FRI, 12), [5])).toBe(true);
+    expect(withinWindow("09:00", "17:00", at(SAT, 12), [5])).toBe(false);
+  });
+
+  it("should carry an overnight window into the next weekday", () => {
+    // Friday evening window runs into Saturday morning
+    expect(withinWindow("21:00", "07:00", at(FRI, 22), [5])).toBe(true);
+    expect(withinWindow("21:00", "07:00", at(SAT, 6, 59), [5])).toBe(true);
+    expect(withinWindow("21:00", "07:00", at(SAT, 7), [5])).toBe(false);
+    // ...but Saturday evening isn't part of it
+    expect(withinWindow("21:00", "07:00", at(SAT, 22), [5])).toBe(false);
+    // Thursday's window doesn't exist, so early Friday is outside
+    expect(withinWindow("21:00", "07:00", at(FRI, 3), [5])).toBe(false);
+  });
+
+  it("should wrap Saturday's overnight window into Sunday", () => {
+    expect(withinWindow("22:00", "02:00", at(SUN, 1), [6])).toBe(true);
+    expect(withinWindow("22:00", "02:00", at(MON, 1), [0])).toBe(true);
+  });
+
+  it("should treat equal start and end as a full day from the start", () => {
+    expect(withinWindow("00:00", "00:00", at(SAT, 0), [6])).toBe(true);
+    expect(withinWindow("00:00", "00:00", at(SAT, 23, 59), [6])).toBe(true);
+    expect(withinWindow("00:00", "00:00", at(SUN, 0), [6])).toBe(false);
+  });
+});
+
+describe("withinAnyWindow", () => {
+  // "Dark all weekend, evenings on weekdays"
+  const team: ScheduleWindow[] = [
+    { days: [0, 6], start: "00:00", end: "00:00" },
+    { days: [1, 2, 3, 4, 5], start: "19:00", end: "07:00" }
+  ];
+
+  it("should combine weekday evenings with whole weekend days", () => {
+    expect(withinAnyWindow(team, at(FRI, 12))).toBe(false);
+    expect(withinAnyWindow(team, at(FRI, 20))).toBe(true);
+    expect(withinAnyWindow(team, at(SAT, 12))).toBe(true);
+    expect(withinAnyWindow(team, at(SUN, 23))).toBe(true);
+    expect(withinAnyWindow(team, at(MON, 6))).toBe(false);
+    expect(withinAnyWindow(team, at(MON, 12))).toBe(false);
+  });
+
+  it("should never match with no windows", () => {
+    expect(withinAnyWindow([], at(FRI, 22))).toBe(false);
+  });
+});
+
+describe("nextTransition", () => {
+  const fixed = (windows: ScheduleWindow[]): Schedule => ({ ...DEFAULTS.schedule, enabled: true, kind: "fixed", windows });
+  const nightly = fixed([{ days: [0, 1, 2, 3, 4, 5, 6], start: "21:00", end: "07:00" }]);
+
+  it("should find the end of the current window", () => {
+    expect(nextTransition(nightly, at(FRI, 23))).toEqual(at(SAT, 7));
+    expect(nextTransition(nightly, at(SAT, 3))).toEqual(at(SAT, 7));
+  });
+
+  it("should find the start of the next window", () => {
+    expect(nextTransition(nightly, at(FRI, 12))).toEqual(at(FRI, 21));
+    // Exactly on a boundary the next one is the following flip
+    expect(nextTransition(nightly, at(FRI, 21))).toEqual(at(SAT, 7));
+  });
+
+  it("should skip boundaries where overlapping windows keep the schedule on", () => {
+    const overlapping = fixed([
+      { days: [5], start: "18:00", end: "23:00" },
+      { days: [5], start: "22:00", end: "02:00" }
+    ]);
+    expect(nextTransition(overlapping, at(FRI, 19))).toEqual(at(SAT, 2));
+  });
+
+  it("should jump over days without a window", () => {
+    const weekdays = fixed([{ days: [1, 2, 3, 4, 5], start: "19:00", end: "07:00" }]);
+    // Friday night runs into Saturday morning; the next start is Monday evening
+    expect(nextTransition(weekdays, at(SAT, 8))).toEqual(at(MON, 19));
+  });
+
+  it("should return null when the schedule never flips", () => {
+    expect(nextTransition(fixed([]), at(FRI, 12))).toBeNull();
+    expect(nextTransition(fixed([{ days: [0, 1, 2, 3, 4, 5, 6], start: "00:00", end: "00:00" }]), at(FRI, 12))).toBeNull();
+  });
+
+  it("should follow sunrise and sunset for solar schedules", () => {
+    const solar: Schedule = { ...DEFAULTS.schedule, enabled: true, kind: "solar" };
+    const noon = new Date("2024-06-21T12:00:00Z");
+    const sunset = nextTransition(solar, noon)!;
+    // London midsummer sunset is around 20:21 UTC
+    expect(sunset.getTime() - noon.getTime()).toBeGreaterThan(8 * 3600000);
+    expect(sunset.getTime() - noon.getTime()).toBeLessThan(9 * 3600000);
+  });
+});
+
+describe("nextScheduleCheck", () => {
+  it("should wake exactly at the next transition", () => {
+    const schedule: Schedule = { ...DEFAULTS.schedule, enabled: true, kind: "fixed" };
+    expect(nextScheduleCheck(schedule, at(FRI, 12))).toBe(at(FRI, 21).getTime());
+  });
+
+  it("should not wake for a disabled or never-changing schedule", () => {
+    expect(nextScheduleCheck({ ...DEFAULTS.schedule, enabled: false }, at(FRI, 12))).toBeNull();
+    expect(nextScheduleCheck({ ...DEFAULTS.schedule, enabled: true, kind: "fixed", windows: [] }, at(FRI, 12))).toBeNull();
+  });
+
+  it("should re-check a polar solar schedule a day later", () => {
+    const tromso: Schedule = {
+      ...DEFAULTS.schedule,
+      enabled: true,
+      kind: "solar",
+      solar: { ...DEFAULTS.schedule.solar, city: "Tromsø", latitude: 69.65, longitude: 18.96 }
+    };
+    const midsummer = new Date("2024-06-21T12:00:00Z");
+    expect(nextScheduleCheck(tromso, midsummer)).toBe(midsummer.getTime() + 24 * 3600000);
+  });
+});
+
+describe("rampProgress", () => {
+  const ramped = (minutes: number): Schedule => ({ ...DEFAULTS.schedule, enabled: true, kind: "fixed", ramp: { enabled: true, minutes } });
+
+  it("should find when the current state began", () => {
+    expect(previousTransition(ramped(30), at(FRI, 23))).toEqual(at(FRI, 21));
+    expect(previousTransition(ramped(30), at(SAT, 12))).toEqual(at(SAT, 7));
+  });
+
+  it("should rise after the theme turns on and fall before it turns off", () => {
+    const schedule = ramped(30);
+    expect(rampProgress(schedule, at(FRI, 21))).toBe(0);
+    expect(rampProgress(schedule, at(FRI, 21, 15))).toBe(0.5);
+    expect(rampProgress(schedule, at(FRI, 21, 40))).toBeNull();
+    expect(rampProgress(schedule, at(SAT, 6, 30))).toBe(1);
+    expect(rampProgress(schedule, at(SAT, 6, 45))).toBe(0.5);
+  });
+
+  it("should move in whole one-minute steps", () => {
+    const schedule = ramped(10);
+    const inStep = new Date(at(FRI, 21, 3).getTime() + 40000);
+    expect(rampProgress(schedule, inStep)).toBe(0.3);
+  });
+
+  it("should stay null during the day, without a ramp, or with the schedule off", () => {
+    expect(rampProgress(ramped(30), at(FRI, 12))).toBeNull();
+    expect(rampProgress({ ...ramped(30), ramp: { enabled: false, minutes: 30 } }, at(FRI, 21, 5))).toBeNull();
+    expect(rampProgress({ ...ramped(30), enabled: false }, at(FRI, 21, 5))).toBeNull();
+  });
+
+  it("should wake for each step and for the start of the morning ramp", () => {
+    const schedule = ramped(30);
+    expect(nextScheduleCheck(schedule, at(FRI, 21, 5))).toBe(at(FRI, 21, 6).getTime());
+    expect(nextScheduleCheck(schedule, at(FRI, 23))).toBe(at(SAT, 6, 30).getTime());
+    expect(nextScheduleCheck(schedule, at(SAT, 6, 30))).toBe(at(SAT, 6, 31).getTime());
+    expect(nextScheduleCheck(schedule, new Date(at(SAT, 6, 59).getTime() + 30000))).toBe(at(SAT, 7).getTime());
+  });
+});
+
+describe("nextTransition across DST changes", () => {
+  const originalTz = process.env.TZ;
+  afterEach(() => {
+    if (originalTz === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTz;
+  });
+  const fixed = (start: string, end: string): Schedule => ({
+    ...DEFAULTS.schedule,
+    enabled: true,
+    kind: "fixed",
+    windows: [{ days: [0, 1, 2, 3, 4, 5, 6], start, end }]
+  });
+
+  it("should end an overnight window at 07:00 local after the clocks go forward", () => {
+    process.env.TZ = "Europe/Berlin";
+    // The night of 30-31 March 2024 is an hour short
+    const from = new Date("2024-03-30T23:00:00+01:00");
+    const next = nextTransition(fixed("21:00", "07:00"), from)!;
+    expect(next.toISOString()).toBe("2024-03-31T05:00:00.000Z");
+    expect(next.getTime() - from.getTime()).toBe(7 * 3600000);
+  });
+
+  it("should end an overnight window at 07:00 local after the clocks go back", () => {
+    process.env.TZ = "Europe/Berlin";
+    // ...and the night of 26-27 October 2024 an hour long
+    const from = new Date("2024-10-26T23:00:00+02:00");
+    const next = nextTransition(fixed("21:00", "07:00"), from)!;
+    expect(next.toISOString()).toBe("2024-10-27T06:00:00.000Z");
+    expect(next.getTime() - from.getTime()).toBe(9 * 3600000);
+  });
+
+  it("should move a boundary inside the spring-forward gap to just after it", () => {
+    process.env.TZ = "Europe/Berlin";
+    // 02:30 doesn't exist on 31 March; the window starts at 03:30 CEST
+    const schedule = fixed("02:30", "06:00");
+    const next = nextTransition(schedule, new Date("2024-03-31T01:00:00+01:00"))!;
+    expect(next.toISOString()).toBe("2024-03-31T01:30:00.000Z");
+    expect(scheduleActive(schedule, new Date(next.getTime() - 1))).toBe(false);
+    expect(scheduleActive(schedule, next)).toBe(true);
+  });
+
+  it("should use the first of two 02:30s when the clocks go back", () => {
+    process.env.TZ = "Europe/Berlin";
+    const schedule = fixed("22:00", "02:30");
+    const next = nextTransition(schedule, new Date("2024-10-27T01:00:00+02:00"))!;
+    expect(next.toISOString()).toBe("2024-10-27T00:30:00.000Z");
+    // The repeated 02:30 CET is already outside the window, and nothing flips again until 22:00
+    expect(scheduleActive(schedule, new Date("2024-10-27T02:45:00+01:00"))).toBe(false);
+    expect(nextTransition(schedule, new Date("2024-10-27T02:45:00+01:00"))!.toISOString()).toBe("2024-10-27T21:00:00.000Z");
+  });
+
+  it("should handle US changes, where the gap is at 02:00", () => {
+    process.env.TZ = "America/New_York";
+    // 10 March 2024: 02:00 EST jumps to 03:00 EDT
+    const next = nextTransition(fixed("02:00", "08:00"), new Date("2024-03-10T01:30:00-05:00"))!;
+    expect(next.toISOString()).toBe("2024-03-10T07:00:00.000Z");
+  });
+});
@@ -0,0 +1,93 @@
+// tests/settings-events.test.ts
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockBrowser, type MockBrowser } from "./mocks/storage";
+import { DEFAULTS } from "../src/utils/defaults";
+import { isSettingsChange, onSettingsChanged } from "../src/utils/settings-events";
+import { getSettings, setSettings } from "../src/utils/storage";
+
+let mockBrowser: MockBrowser;
+
+/** Let the subscription's queued storage reads settle */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("isSettingsChange", () => {
+  it("should match the sync core item and its shards", () => {
+    expect(isSettingsChange({ settings: {} }, "sync")).toBe(true);
+    expect(isSettingsChange({ "settings.perSite.0": {} }, "sync")).toBe(true);
+    expect(isSettingsChange({ unrelated: {} }, "sync")).toBe(false);
+  });
+
+  it("should match the local fallback but not other local keys", () => {
+    expect(isSettingsChange({ settings: {} }, "local")).toBe(true);
+    expect(isSettingsChange({ syncQuotaExceeded: {} }, "local")).toBe(true);
+    expect(isSettingsChange({ isDebugMode: {} }, "local")).toBe(false);
+  });
+
+  it("should ignore other storage areas", () => {
+    expect(isSettingsChange({ settings: {} }, "managed")).toBe(false);
+  });
+});
+
+describe("onSettingsChanged", () => {
+  beforeEach(() => {
+    mockBrowser = createMockBrowser();
+    // @ts-expect-error - mocking browser global
+    globalThis.browser = mockBrowser;
+  });
+
+  it("should call the listener with new and previous settings", async () => {
+    await setSettings(structuredClone(DEFAULTS));
+    const listener = vi.fn();
+    onSettingsChanged(listener);
+    await flush();
+
+    await setSettings({ ...structuredClone(DEFAULTS), brightness: 70 });
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const [next, prev] = listener.mock.calls[0];
+    expect(next.brightness).toBe(70);
+    expect(prev.brightness).toBe(DEFAULTS.brightness);
+  });
+
+  it("should fire once per logical change even when several items are written", async () => {
+    const listener = vi.fn();
+    onSettingsChanged(listener);
+    await flush();
+
+    // Large enough to be sharded across several sync items
+    const perSite: Record<string, object> = {};
+    for (let i = 0; i < 200; i++) perSite[`https://site-${i}.example.com`] = { override: { brightness: 60 } };
+    await setSettings({ ...structuredClone(DEFAULTS), perSite });
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(Object.keys(listener.mock.calls[0][0].perSite)).toHaveLength(200);
+  });
+
+  it("should not fire for writes that leave settings unchanged", async () => {
+    await setSettings(structuredClone(DEFAULTS));
+    const listener = vi.fn();
+    onSettingsChanged(listener);
+    await flush();
+
+    await setSettings(await getSettings());
+    await mockBrowser.storage.local.set({ isDebugMode: true });
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should stop calling the listener after unsubscribing", async () => {
+    const listener = vi.fn();
+    const unsubscribe = onSettingsChanged(listener);
+    await flush();
+    unsubscribe();
+
+    await setSettings({ ...structuredClone(DEFAULTS), contrast: 150 });
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(mockBrowser.storage.onChanged.removeListener).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,140 @@
+// tests/site-rules.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  canonicalHost,
+  canonicalSiteKey,
+  compareSiteRules,
+  escapeGlob,
+  matchingSiteRules,
+  parseSiteRule,
+  siteKeyFromUrl,
+  siteRuleMatches
+} from "../src/utils/site-rules";
+
+const matches = (key: string, url: string) => siteRuleMatches(parseSiteRule(key)!, new URL(url));
+
+describe("parseSiteRule", () => {
+  it("should parse origins, wildcards and path rules", () => {
+    expect(parseSiteRule("https://example.com")).toMatchObject({ kind: "origin", scheme: "https:", host: "example.com", path: null });
+    expect(parseSiteRule("*.Example.com")).toMatchObject({ kind: "wildcard", scheme: null, host: "example.com", wildcard: true });
+    expect(parseSiteRule("https://docs.example.com/api/*")).toMatchObject({ kind: "path", path: "/api/*" });
+    expect(parseSiteRule("*.example.com/docs")).toMatchObject({ kind: "path", wildcard: true, path: "/docs" });
+  });
+
+  it("should treat a bare trailing slash as host-wide", () => {
+    expect(parseSiteRule("https://example.com/")).toMatchObject({ kind: "origin", path: null });
+  });
+
+  it("should reject malformed keys and top-level wildcards", () => {
+    expect(parseSiteRule("example.com")).toBeNull();
+    expect(parseSiteRule("*.com")).toBeNull();
+    expect(parseSiteRule("https://*.example.com")).toBeNull();
+    expect(parseSiteRule("")).toBeNull();
+  });
+});
+
+describe("siteRuleMatches", () => {
+  it("should match origins by scheme and host including port", () => {
+    expect(matches("https://example.com", "https://example.com/a/b")).toBe(true);
+    expect(matches("https://example.com", "http://example.com/")).toBe(false);
+    expect(matches("http://localhost:8080", "http://localhost:8080/x")).toBe(true);
+    expect(matches("http://localhost:8080", "http://localhost:3000/x")).toBe(false);
+  });
+
+  it("should match a wildcard's domain and all subdomains on any scheme", () => {
+    expect(matches("*.example.com", "https://example.com/")).toBe(true);
+    expect(matches("*.example.com", "http://a.b.example.com/")).toBe(true);
+    expect(matches("*.example.com", "https://notexample.com/")).toBe(false);
+  });
+
+  it("should match path prefixes on segment boundaries", () => {
+    expect(matches("https://example.com/api", "https://example.com/api")).toBe(true);
+    expect(matches("https://example.com/api", "https://example.com/api/v1")).toBe(true);
+    expect(matches("https://example.com/api", "https://example.com/apiary")).toBe(false);
+    expect(matches("https://example.com/api/", "https://example.com/api/v1")).toBe(true);
+  });
+
+  it("should match path globs against the whole path", () => {
+    expect(matches("*.example.com/*/edit", "https://wiki.example.com/page/edit")).toBe(true);
+    expect(matches("*.example.com/*/edit", "https://wiki.example.com/page/view")).toBe(false);
+    expect(matches("https://example.com/docs/*.html", "https://example.com/docs/a.html?x=1")).toBe(true);
+  });
+
+  it("should read an escaped \\* as a literal asterisk", () => {
+    const key = `https://example.com${escapeGlob("/files/*")}`;
+    expect(key).toBe("https://example.com/files/\\*");
+    expect(matches(key, "https://example.com/files/*")).toBe(true);
+    expect(matches(key, "https://example.com/files/*/1")).toBe(true);
+    expect(matches(key, "https://example.com/files/report")).toBe(false);
+    expect(matches("https://example.com/a\\*/*", "https://example.com/a*/b")).toBe(true);
+    expect(matches("https://example.com/a\\*/*", "https://example.com/ab/b")).toBe(false);
+  });
+});
+
+describe("compareSiteRules / matchingSiteRules", () => {
+  it("should order matching rules from least to most specific", () => {
+    const keys = [
+      "https://docs.example.com/api/*",
+      "*.example.com",
+      "https://docs.example.com",
+      "https://docs.example.com/api/v2",
+      "*.docs.example.com",
+      "https://other.com"
+    ];
+    const order = matchingSiteRules("https://docs.example.com/api/v2/users", keys).map((r) => r.key);
+    expect(order).toEqual([
+      "*.example.com",
+      "*.docs.example.com",
+      "https://docs.example.com",
+      "https://docs.example.com/api/*",
+      "https://docs.example.com/api/v2"
+    ]);
+  });
+
+  it("should prefer a prefix over a glob with the same literal path", () => {
+    const prefix = parseSiteRule("https://example.com/docs")!;
+    const glob = parseSiteRule("https://example.com/docs*")!;
+    expect(compareSiteRules(glob, prefix)).toBeLessThan(0);
+  });
+
+  it("should return nothing for unparseable URLs", () => {
+    expect(matchingSiteRules("not a url", ["*.example.com"])).toEqual([]);
+  });
+});
+
+describe("canonical site keys", () => {
+  it("should keep non-default ports and drop default ones", () => {
+    expect(siteKeyFromUrl("http://localhost:3000/app")).toBe("http://localhost:3000");
+    expect(siteKeyFromUrl("https://example.com:443/")).toBe("https://example.com");
+    expect(siteKeyFromUrl("http://example.com:80/")).toBe("http://example.com");
+  });
+
+  it("should drop a leading www. but keep other subdomains", () => {
+    expect(siteKeyFromUrl("https://www.example.com/a")).toBe("https://example.com");
+    expect(siteKeyFromUrl("https://docs.example.com/a")).toBe("https://docs.example.com");
+    expect(canonicalHost("www.com")).toBe("www.com");
+  });
+
+  it("should convert IDN hosts to punycode", () => {
+    expect(siteKeyFromUrl("https://bücher.de/")).toBe("https://xn--bcher-kva.de");
+    expect(canonicalSiteKey("*.Bücher.de/docs")).toBe("*.xn--bcher-kva.de/docs");
+  });
+
+  it("should return null for URLs without a host", () => {
+    expect(siteKeyFromUrl("about:blank")).toBeNull();
+    expect(siteKeyFromUrl("not a url")).toBeNull();
+  });
+
+  it("should canonicalise hand-written rule keys", () => {
+    expect(canonicalSiteKey("HTTPS://WWW.Example.com:443/Docs")).toBe("https://example.com/Docs");
+    expect(canonicalSiteKey("*.www.example.com")).toBe("*.www.example.com");
+    expect(canonicalSiteKey("example.com")).toBeNull();
+  });
+
+  it("should match the same site however its URL is spelled", () => {
+    const rule = parseSiteRule("http://localhost:3000")!;
+    expect(siteRuleMatches(rule, new URL("http://LOCALHOST:3000/x"))).toBe(true);
+    expect(siteRuleMatches(rule, new URL("http://localhost/x"))).toBe(false);
+    expect(siteRuleMatches(parseSiteRule("https://bücher.de")!, new URL("https://www.xn--bcher-kva.de/"))).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+// tests/snooze.test.ts
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockBrowser, type MockBrowser } from "./mocks/storage";
+import {
+  activeSnooze,
+  expireSnoozes,
+  formatRemaining,
+  getSnoozes,
+  nextSnoozeEnd,
+  onSnoozesChanged,
+  resumeSnooze,
+  sameSnoozesFor,
+  snooze,
+  snoozeUntil
+} from "../src/utils/snooze";
+import { runSnoozeAlarm, SNOOZE_ALARM } from "../src/background/snooze-alarm";
+
+type Browser = MockBrowser & {
+  alarms: { create: ReturnType<typeof vi.fn>; clear: ReturnType<typeof vi.fn> };
+};
+let mockBrowser: Browser;
+
+const NOW = new Date(2024, 5, 7, 14, 0).getTime();
+const SITE = "https://example.com";
+
+describe("Snooze", () => {
+  beforeEach(() => {
+    mockBrowser = {
+      ...createMockBrowser(),
+      alarms: { create: vi.fn(), clear: vi.fn(async () => true) }
+    };
+    // @ts-expect-error - mocking browser global
+    globalThis.browser = mockBrowser;
+  });
+
+  it("should compute pause ends", () => {
+    expect(snoozeUntil("15m", new Date(NOW))).toBe(NOW + 15 * 60000);
+    expect(snoozeUntil("1h", new Date(NOW))).toBe(NOW + 3600000);
+    expect(snoozeUntil("tomorrow", new Date(NOW))).toBe(new Date(2024, 5, 8).getTime());
+  });
+
+  it("should keep snoozes in storage.local only", async () => {
+    await snooze(SITE, NOW + 60000);
+    await snooze("global", NOW + 120000);
+    expect(await getSnoozes()).toEqual({ global: NOW + 120000, sites: { [SITE]: NOW + 60000 } });
+    expect(mockBrowser.storage.sync.set).not.toHaveBeenCalled();
+
+    await resumeSnooze("global");
+    await resumeSnooze(SITE);
+    expect(mockBrowser.storage.local.data.snoozes).toBeUndefined();
+  });
+
+  it("should find the pause covering a URL, global first", async () => {
+    await snooze(SITE, NOW + 60000);
+    let snoozes = await getSnoozes();
+    expect(activeSnooze("https://www.example.com/page", snoozes, NOW)).toEqual({ target: SITE, until: NOW + 60000 });
+    expect(activeSnooze("https://other.org/", snoozes, NOW)).toBeNull();
+    expect(activeSnooze("https://example.com/", snoozes, NOW + 60000)).toBeNull();
+
+    await snooze("global", NOW + 30000);
+    snoozes = await getSnoozes();
+    expect(activeSnooze("https://example.com/", snoozes, NOW)?.target).toBe("global");
+    expect(activeSnooze("about:blank", snoozes, NOW)?.target).toBe("global");
+  });
+
+  it("should expire finished snoozes and report the next end", async () => {
+    await snooze(SITE, NOW + 60000);
+    await snooze("https://other.org", NOW + 120000);
+    const left = await expireSnoozes(NOW + 90000);
+    expect(left).toEqual({ global: null, sites: { "https://other.org": NOW + 120000 } });
+    expect(nextSnoozeEnd(left)).toBe(NOW + 120000);
+    expect(nextSnoozeEnd({ global: null, sites: {} })).toBeNull();
+  });
+
+  it("should tell pages whether a change concerns them", () => {
+    const before = { global: null, sites: { [SITE]: NOW } };
+    expect(sameSnoozesFor("https://other.org/", before, { global: null, sites: {} })).toBe(true);
+    expect(sameSnoozesFor("https://example.com/a", before, { global: null, sites: {} })).toBe(false);
+    expect(sameSnoozesFor("about:blank", before, { global: NOW, sites: {} })).toBe(false);
+  });
+
+  it("should notify listeners with the old and new snoozes", async () => {
+    const listener = vi.fn();
+    onSnoozesChanged(listener);
+    await snooze(SITE, NOW);
+    expect(listener).toHaveBeenCalledWith({ global: null, sites: { [SITE]: NOW } }, { global: null, sites: {} });
+  });
+
+  it("should format the countdown", () => {
+    expect(formatRemaining(14 * 60000 + 5000)).toBe("14:05");
+    expect(formatRemaining(2 * 3600000 + 14 * 60000 + 5000)).toBe("2:14:05");
+    expect(formatRemaining(400)).toBe("0:01");
+    expect(formatRemaining(-5)).toBe("0:00");
+  });
+
+  describe("runSnoozeAlarm", () => {
+    it("should arm a one-shot alarm for the earliest end", async () => {
+      await snooze(SITE, NOW + 60000);
+      await snooze("global", NOW + 30000);
+      await runSnoozeAlarm(NOW);
+      expect(mockBrowser.alarms.create).toHaveBeenCalledWith(SNOOZE_ALARM, { when: NOW + 30000 });
+    });
+
+    it("should expire past snoozes on restart and plan the rest", async () => {
+      await snooze("global", NOW - 1000);
+      await snooze(SITE, NOW + 60000);
+      await runSnoozeAlarm(NOW);
+      expect((await getSnoozes()).global).toBeNull();
+      expect(mockBrowser.alarms.create).toHaveBeenLastCalledWith(SNOOZE_ALARM, { when: NOW + 60000 });
+    });
+
+    it("should not arm anything once every snooze is over", async () => {
+      await snooze(SITE, NOW);
+      await runSnoozeAlarm(NOW);
+      expect(mockBrowser.alarms.clear).toHaveBeenCalledWith(SNOOZE_ALARM);
+      expect(mockBrowser.alarms.create).not.toHaveBeenCalled();
+      expect(mockBrowser.storage.local.data.snoozes).toBeUndefined();
+    });
+  });
+});
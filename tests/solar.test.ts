@@ -0,0 +1,123 @@
+// tests/solar.test.ts
+import { describe, it, expect, afterEach } from "vitest";
+import { isAfterDark, solarEvents, sunTimes } from "../src/utils/solar";
+import { scheduleActive } from "../src/utils/schedule";
+import { DEFAULTS } from "../src/utils/defaults";
+import type { Schedule } from "../src/types/settings";
+
+const LONDON = { lat: 51.51, lon: -0.13 };
+const BERLIN = { lat: 52.52, lon: 13.4 };
+const TROMSO = { lat: 69.65, lon: 18.96 };
+const SYDNEY = { lat: -33.87, lon: 151.21 };
+
+/** Minutes between two instants */
+const minutesBetween = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) / 60000;
+
+describe("sunTimes", () => {
+  it("should match published sunrise/sunset for London at the summer solstice", () => {
+    const t = sunTimes(new Date("2024-06-21T12:00:00Z"), LONDON.lat, LONDON.lon);
+    // Published: sunrise 04:43 BST (03:43Z), sunset 21:21 BST (20:21Z)
+    expect(minutesBetween(t.sunrise!, new Date("2024-06-21T03:43:00Z"))).toBeLessThan(3);
+    expect(minutesBetween(t.sunset!, new Date("2024-06-21T20:21:00Z"))).toBeLessThan(3);
+    expect(t.polar).toBeNull();
+  });
+
+  it("should handle the southern hemisphere", () => {
+    const t = sunTimes(new Date("2024-12-21T02:00:00Z"), SYDNEY.lat, SYDNEY.lon);
+    // Published: sunrise 05:41 AEDT (18:41Z previous day), sunset 20:05 AEDT (09:05Z)
+    expect(minutesBetween(t.sunrise!, new Date("2024-12-20T18:41:00Z"))).toBeLessThan(3);
+    expect(minutesBetween(t.sunset!, new Date("2024-12-21T09:05:00Z"))).toBeLessThan(3);
+  });
+
+  it("should report polar night and polar day", () => {
+    expect(sunTimes(new Date("2024-12-21T12:00:00Z"), TROMSO.lat, TROMSO.lon)).toEqual({
+      sunrise: null,
+      sunset: null,
+      polar: "night"
+    });
+    expect(sunTimes(new Date("2024-06-21T12:00:00Z"), TROMSO.lat, TROMSO.lon).polar).toBe("day");
+  });
+});
+
+describe("isAfterDark", () => {
+  it("should be dark between sunset and the next sunrise", () => {
+    expect(isAfterDark(new Date("2024-06-21T12:00:00Z"), LONDON.lat, LONDON.lon)).toBe(false);
+    expect(isAfterDark(new Date("2024-06-21T22:00:00Z"), LONDON.lat, LONDON.lon)).toBe(true);
+    expect(isAfterDark(new Date("2024-06-22T02:00:00Z"), LONDON.lat, LONDON.lon)).toBe(true);
+    expect(isAfterDark(new Date("2024-06-22T05:00:00Z"), LONDON.lat, LONDON.lon)).toBe(false);
+  });
+
+  it("should apply sunset and sunrise offsets in minutes", () => {
+    const justBeforeSunset = new Date("2024-06-21T20:00:00Z"); // ~21 min before sunset
+    expect(isAfterDark(justBeforeSunset, LONDON.lat, LONDON.lon)).toBe(false);
+    expect(isAfterDark(justBeforeSunset, LONDON.lat, LONDON.lon, { sunsetOffset: -30 })).toBe(true);
+
+    const justAfterSunrise = new Date("2024-06-22T04:00:00Z"); // ~17 min after sunrise
+    expect(isAfterDark(justAfterSunrise, LONDON.lat, LONDON.lon)).toBe(false);
+    expect(isAfterDark(justAfterSunrise, LONDON.lat, LONDON.lon, { sunriseOffset: 30 })).toBe(true);
+  });
+
+  it("should stay dark all day during polar night and light during polar day", () => {
+    for (const hour of ["00", "06", "12", "18"]) {
+      expect(isAfterDark(new Date(`2024-12-21T${hour}:00:00Z`), TROMSO.lat, TROMSO.lon)).toBe(true);
+      expect(isAfterDark(new Date(`2024-06-21T${hour}:00:00Z`), TROMSO.lat, TROMSO.lon)).toBe(false);
+    }
+  });
+
+  it("should follow the last real sunset into the polar night", () => {
+    // Tromsø's last sunset of 2024 is on 26 Nov; the following days have no events at all
+    const events = solarEvents(new Date("2024-11-26T12:00:00Z"), TROMSO.lat, TROMSO.lon);
+    expect(events.some((e) => e.kind === "sunset")).toBe(true);
+    expect(isAfterDark(new Date("2024-11-28T11:00:00Z"), TROMSO.lat, TROMSO.lon)).toBe(true);
+  });
+});
+
+describe("DST transitions", () => {
+  const originalTz = process.env.TZ;
+  afterEach(() => {
+    if (originalTz === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTz;
+  });
+
+  it("should keep sunset at the same solar time across the spring-forward night", () => {
+    process.env.TZ = "Europe/Berlin";
+    const before = sunTimes(new Date("2024-03-30T12:00:00+01:00"), BERLIN.lat, BERLIN.lon).sunset!;
+    const after = sunTimes(new Date("2024-03-31T12:00:00+02:00"), BERLIN.lat, BERLIN.lon).sunset!;
+    // Real sunset moves ~2 minutes later per day; local clock time jumps an hour
+    expect(after.getTime() - before.getTime()).toBeGreaterThan(23 * 3600000);
+    expect(after.getTime() - before.getTime()).toBeLessThan(24 * 3600000 + 5 * 60000);
+    expect(after.getHours()).toBe(before.getHours() + 1);
+  });
+
+  it("should give one sunrise and one sunset per day around the autumn change", () => {
+    process.env.TZ = "Europe/Berlin";
+    const events = solarEvents(new Date("2024-10-27T12:00:00+01:00"), BERLIN.lat, BERLIN.lon);
+    expect(events.map((e) => e.kind)).toEqual(["sunrise", "sunset", "sunrise", "sunset", "sunrise", "sunset"]);
+    // 02:30 happens twice that night; it is dark both times
+    expect(isAfterDark(new Date("2024-10-27T02:30:00+02:00"), BERLIN.lat, BERLIN.lon)).toBe(true);
+    expect(isAfterDark(new Date("2024-10-27T02:30:00+01:00"), BERLIN.lat, BERLIN.lon)).toBe(true);
+  });
+});
+
+describe("scheduleActive", () => {
+  const solar = (patch: Partial<Schedule["solar"]>): Schedule => ({
+    ...structuredClone(DEFAULTS.schedule),
+    enabled: true,
+    kind: "solar",
+    solar: { ...DEFAULTS.schedule.solar, latitude: LONDON.lat, longitude: LONDON.lon, ...patch }
+  });
+
+  it("should use sunset/sunrise for solar schedules", () => {
+    expect(scheduleActive(solar({}), new Date("2024-12-21T17:00:00Z"))).toBe(true);
+    expect(scheduleActive(solar({}), new Date("2024-12-21T12:00:00Z"))).toBe(false);
+  });
+
+  it("should use the clock window for fixed schedules", () => {
+    const fixed: Schedule = {
+      ...structuredClone(DEFAULTS.schedule),
+      enabled: true,
+      windows: [{ days: [0, 1, 2, 3, 4, 5, 6], start: "00:00", end: "23:59" }]
+    };
+    expect(scheduleActive(fixed, new Date(2024, 0, 1, 12, 0))).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+// tests/storage.test.ts
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Settings } from "../src/types/settings";
+import { DEFAULTS } from "../src/utils/defaults";
+import { createMockBrowser } from "./mocks/storage";
+import {
+  getSettings,
+  setSettings,
+  getStorageStatus,
+  runMigrations,
+  shardSettings,
+  unshardSettings,
+  itemBytes,
+  SHARD_BUDGET_BYTES
+} from "../src/utils/storage";
+
+/** Build settings with `count` per-site overrides and regex lines */
+function bigSettings(count: number): Settings {
+  const s = structuredClone(DEFAULTS);
+  for (let i = 0; i < count; i++) {
+    s.perSite[`https://site-${i}.example.com`] = { enabled: i % 2 === 0, forceDarkMode: true, override: { brightness: 80 } };
+    s.excludeRegex.push(`/^https:\\/\\/excluded-${i}\\.example\\.org\\/.*$/i`);
+  }
+  return s;
+}
+
+describe("Sharded settings storage", () => {
+  const mockBrowser = createMockBrowser();
+  const sync = mockBrowser.storage.sync;
+  const local = mockBrowser.storage.local;
+
+  beforeEach(() => {
+    sync.reset();
+    local.reset();
+    // @ts-expect-error - mocking browser global
+    globalThis.browser = mockBrowser;
+  });
+
+  describe("shardSettings / unshardSettings", () => {
+    it("should keep every item under the shard budget", () => {
+      const items = shardSettings(bigSettings(300) as unknown as Record<string, unknown>);
+      for (const [k, v] of Object.entries(items)) {
+        expect(itemBytes(k, v)).toBeLessThanOrEqual(SHARD_BUDGET_BYTES);
+      }
+      expect(Object.keys(items).filter((k) => k.startsWith("settings.perSite.")).length).toBeGreaterThan(1);
+    });
+
+    it("should round-trip settings through shards", () => {
+      const s = bigSettings(300);
+      expect(unshardSettings(shardSettings(s as unknown as Record<string, unknown>))).toEqual(s);
+    });
+
+    it("should pass unsharded legacy data through unchanged", () => {
+      const legacy = { brightness: 70, perSite: { "https://a.com": {} } };
+      expect(unshardSettings({ settings: legacy })).toEqual(legacy);
+    });
+
+    it("should write empty lists as zero shards", () => {
+      const items = shardSettings(structuredClone(DEFAULTS) as unknown as Record<string, unknown>);
+      expect(Object.keys(items)).toEqual(["settings"]);
+      expect((items.settings as { shards: unknown }).shards).toEqual({ perSite: 0, excludeRegex: 0 });
+    });
+  });
+
+  describe("setSettings / getSettings", () => {
+    it("should store hundreds of per-site entries without hitting the per-item quota", async () => {
+      const s = bigSettings(300);
+      await setSettings(s);
+
+      expect(await getSettings()).toEqual(s);
+      expect(await getStorageStatus()).toEqual({ area: "sync" });
+      expect(local.data.settings).toBeUndefined();
+    });
+
+    it("should remove stale shards when settings shrink", async () => {
+      await setSettings(bigSettings(300));
+      const small = bigSettings(2);
+      await setSettings(small);
+
+      expect(Object.keys(sync.data).sort()).toEqual(["settings", "settings.excludeRegex.0", "settings.perSite.0"]);
+      expect(await getSettings()).toEqual(small);
+    });
+
+    it("should read legacy unsharded settings", async () => {
+      sync.data.settings = { ...DEFAULTS, perSite: { "https://a.com": { exclude: true } }, excludeRegex: ["x"] };
+      const s = await getSettings();
+      expect(s.perSite).toEqual({ "https://a.com": { exclude: true } });
+      expect(s.excludeRegex).toEqual(["x"]);
+    });
+
+    it("should shard legacy settings when migrations run", async () => {
+      sync.data.settings = { ...DEFAULTS, perSite: { "https://a.com": { exclude: true } } };
+      expect(await runMigrations()).toBe(true);
+      expect(sync.data["settings.perSite.0"]).toEqual({ "https://a.com": { exclude: true } });
+      expect(sync.data.settings).not.toHaveProperty("perSite");
+    });
+  });
+
+  describe("quota fallback", () => {
+    beforeEach(() => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    it("should fall back to storage.local when total sync quota is exhausted", async () => {
+      // ~2000 entries is far beyond the 100 KB total sync quota
+      const huge = bigSettings(2000);
+      await setSettings(huge);
+
+      const status = await getStorageStatus();
+      expect(status.area).toBe("local");
+      expect(status.reason).toMatch(/QuotaExceededError/);
+      expect(await getSettings()).toEqual(huge);
+      // The failed write must not leave partial shards behind in sync
+      expect(Object.keys(sync.data)).toEqual([]);
+    });
+
+    it("should move back to sync and clear the warning once settings fit again", async () => {
+      await setSettings(bigSettings(2000));
+      const small = bigSettings(5);
+      await setSettings(small);
+
+      expect(await getStorageStatus()).toEqual({ area: "sync" });
+      expect(local.data.settings).toBeUndefined();
+      expect(await getSettings()).toEqual(small);
+    });
+
+    it("should keep reading the local copy while the fallback is active", async () => {
+      await setSettings(bigSettings(5));
+      await setSettings(bigSettings(2000));
+      expect(Object.keys((await getSettings()).perSite)).toHaveLength(2000);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// tests/tab-overrides.test.ts
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { DEFAULTS } from "../src/utils/defaults";
+import { effectiveSettingsFor, withTabOverride } from "../src/utils/effective-settings";
+import { dropTabOverride, getTabOverride, setTabOverride } from "../src/background/tab-overrides";
+import { SettingsValidationError } from "../src/utils/validation";
+import { message } from "../src/utils/messages";
+
+describe("Tab overrides", () => {
+  const sendMessage = vi.fn(async () => {});
+  const syncSet = vi.fn(async () => {});
+  const localSet = vi.fn(async () => {});
+
+  beforeEach(() => {
+    sendMessage.mockClear();
+    syncSet.mockClear();
+    localSet.mockClear();
+    // @ts-expect-error - mocking browser global
+    globalThis.browser = {
+      tabs: { sendMessage },
+      storage: { sync: { set: syncSet }, local: { set: localSet } }
+    };
+  });
+
+  it("should keep only theme fields and push the override to the tab", async () => {
+    const override = await setTabOverride(1, "https://example.com/a", {
+      brightness: 80,
+      mode: "photon-inverter",
+      perSite: { "https://evil.com": { enabled: false } }
+    });
+
+    expect(override).toEqual({ brightness: 80, mode: "photon-inverter" });
+    expect(getTabOverride(1)).toEqual(override);
+    expect(sendMessage).toHaveBeenCalledWith(1, message("udr:tab-override", { override }));
+  });
+
+  it("should never write to storage", async () => {
+    await setTabOverride(2, "https://example.com/", { enabled: false });
+    expect(syncSet).not.toHaveBeenCalled();
+    expect(localSet).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid values without touching the current override", async () => {
+    await setTabOverride(3, "https://example.com/", { contrast: 120 });
+    await expect(setTabOverride(3, "https://example.com/", { brightness: 900 })).rejects.toBeInstanceOf(SettingsValidationError);
+    expect(getTabOverride(3)).toEqual({ contrast: 120 });
+  });
+
+  it("should drop the override when the tab leaves its site or closes", async () => {
+    await setTabOverride(4, "https://www.example.com/a", { sepia: 20 });
+    dropTabOverride(4, "https://example.com/b");
+    expect(getTabOverride(4)).toEqual({ sepia: 20 });
+
+    dropTabOverride(4, "https://other.org/");
+    expect(getTabOverride(4)).toEqual({});
+
+    await setTabOverride(5, "https://example.com/", { sepia: 20 });
+    dropTabOverride(5);
+    expect(getTabOverride(5)).toEqual({});
+  });
+
+  it("should forget an override that is cleared to nothing", async () => {
+    await setTabOverride(6, "https://example.com/", { grayscale: 50 });
+    await setTabOverride(6, "https://example.com/", {});
+    expect(getTabOverride(6)).toEqual({});
+    expect(sendMessage).toHaveBeenLastCalledWith(6, message("udr:tab-override", { override: {} }));
+  });
+
+  it("should still succeed when the tab has no content script", async () => {
+    sendMessage.mockRejectedValueOnce(new Error("Could not establish connection"));
+    await expect(setTabOverride(7, "about:blank", { brightness: 90 })).resolves.toEqual({ brightness: 90 });
+  });
+
+  describe("withTabOverride", () => {
+    it("should layer the override over the resolved site settings", () => {
+      const s = { ...structuredClone(DEFAULTS), perSite: { "https://example.com": { override: { brightness: 70, sepia: 10 } } } };
+      const eff = withTabOverride(effectiveSettingsFor("https://example.com/", s), { brightness: 50 });
+      expect(eff.use.brightness).toBe(50);
+      expect(eff.use.sepia).toBe(10);
+    });
+
+    it("should return the resolution untouched without an override", () => {
+      const eff = effectiveSettingsFor("https://example.com/", structuredClone(DEFAULTS));
+      expect(withTabOverride(eff, {})).toBe(eff);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+// tests/tab-status.test.ts
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { DEFAULTS } from "../src/utils/defaults";
+import { effectiveSettingsFor } from "../src/utils/effective-settings";
+import { darkSiteStatus, settingsSkipStatus, statusBadge } from "../src/utils/tab-status";
+import { clearTabStatus, getTabStatus, setTabStatus } from "../src/background/tab-registry";
+import type { Settings } from "../src/types/settings";
+
+const settings = (patch: Partial<Settings> = {}): Settings => ({ ...structuredClone(DEFAULTS), ...patch });
+const skip = (url: string, s: Settings) => settingsSkipStatus(url, s, effectiveSettingsFor(url, s));
+
+describe("Tab status", () => {
+  describe("settingsSkipStatus", () => {
+    it("should not skip a page the settings allow", () => {
+      expect(skip("https://example.com/", settings())).toBeNull();
+    });
+
+    it("should report the global switch", () => {
+      expect(skip("https://example.com/", settings({ enabled: false }))).toEqual({ themed: false, reason: "global-off" });
+    });
+
+    it("should name the rule that turns a site off or excludes it", () => {
+      const s = settings({
+        perSite: {
+          "*.example.com": { enabled: false },
+          "https://docs.example.com/api": { exclude: true }
+        }
+      });
+      expect(skip("https://www.example.com/", s)).toEqual({ themed: false, reason: "site-off", detail: "*.example.com" });
+      expect(skip("https://docs.example.com/api/v1", s)).toEqual({ themed: false, reason: "site-off", detail: "*.example.com" });
+
+      s.perSite["*.example.com"] = {};
+      expect(skip("https://docs.example.com/api/v1", s)).toEqual({
+        themed: false,
+        reason: "site-excluded",
+        detail: "https://docs.example.com/api"
+      });
+    });
+
+    it("should blame global off even when the site has a rule without the flag", () => {
+      const s = settings({ enabled: false, perSite: { "https://example.com": { forceDarkMode: true } } });
+      expect(skip("https://example.com/", s)?.reason).toBe("global-off");
+    });
+
+    it("should report a tab override that turns the page off", () => {
+      const url = "https://example.com/";
+      const s = settings();
+      expect(settingsSkipStatus(url, s, effectiveSettingsFor(url, s), { enabled: false })).toEqual({ themed: false, reason: "tab-off" });
+      expect(settingsSkipStatus(url, s, effectiveSettingsFor(url, s), { brightness: 80 })).toBeNull();
+    });
+
+    it("should report the exclusion pattern that matched", () => {
+      const s = settings({ excludeRegex: ["/mail\\./", "/docs\\./"] });
+      expect(skip("https://docs.example.com/", s)).toEqual({ themed: false, reason: "regex-excluded", detail: "/docs\\./" });
+    });
+  });
+
+  describe("statusBadge", () => {
+    it("should describe dark sites with the detection result", () => {
+      const status = darkSiteStatus({ dark: true, reason: "luminance", luminance: 0.0812 });
+      expect(statusBadge(status)).toEqual({ text: "DRK", title: "UltraDark — Skipped: site already dark (luminance 0.08)" });
+      expect(darkSiteStatus({ dark: true, reason: "markers" }).detail).toBe("dark theme markers");
+    });
+
+    it("should leave the badge empty while themed", () => {
+      expect(statusBadge({ themed: true, reason: "themed", mode: "dom-walker" })).toEqual({ text: "", title: "UltraDark: active (dom-walker)" });
+    });
+
+    it("should label every skip reason", () => {
+      expect(statusBadge({ themed: false, reason: "global-off" }).text).toBe("OFF");
+      expect(statusBadge({ themed: false, reason: "regex-excluded", detail: "/x/" }).title).toBe("UltraDark — Skipped: URL matches an exclusion pattern (/x/)");
+    });
+  });
+
+  describe("registry", () => {
+    const browserAction = {
+      setBadgeText: vi.fn(async () => {}),
+      setBadgeBackgroundColor: vi.fn(async () => {}),
+      setTitle: vi.fn(async () => {}),
+      setIcon: vi.fn(async () => {})
+    };
+
+    beforeEach(() => {
+      Object.values(browserAction).forEach((fn) => fn.mockClear());
+      // @ts-expect-error - mocking browser global
+      globalThis.browser = { browserAction };
+    });
+
+    it("should keep one status per tab and show it on that tab's button", async () => {
+      await setTabStatus(3, { themed: false, reason: "already-dark", detail: "luminance 0.08" });
+      await setTabStatus(4, { themed: true, reason: "themed", mode: "photon-inverter" });
+
+      expect(getTabStatus(3)?.reason).toBe("already-dark");
+      expect(getTabStatus(4)?.themed).toBe(true);
+      expect(browserAction.setBadgeText).toHaveBeenCalledWith({ tabId: 3, text: "DRK" });
+      expect(browserAction.setTitle).toHaveBeenCalledWith({ tabId: 3, title: "UltraDark — Skipped: site already dark (luminance 0.08)" });
+      expect(browserAction.setIcon).toHaveBeenCalledWith({ tabId: 3, path: expect.objectContaining({ 16: expect.stringContaining("icon-off") }) });
+    });
+
+    it("should reset the button when a tab navigates, and only forget closed tabs", async () => {
+      await setTabStatus(5, { themed: false, reason: "global-off" });
+      await clearTabStatus(5);
+      expect(getTabStatus(5)).toBeUndefined();
+      expect(browserAction.setBadgeText).toHaveBeenLastCalledWith({ tabId: 5, text: "" });
+
+      await setTabStatus(6, { themed: false, reason: "global-off" });
+      browserAction.setBadgeText.mockClear();
+      await clearTabStatus(6, true);
+      expect(getTabStatus(6)).toBeUndefined();
+      expect(browserAction.setBadgeText).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// tests/theme-watcher.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { JSDOM } from "jsdom";
+import { THEME_SETTLE_MS, watchSiteTheme } from "../src/content/theme-watcher";
+import { darkThemeVerdict, hasExplicitDarkThemeMarkers, siteThemeSignature } from "../src/utils/dark-detection";
+import { withoutOwnStyles } from "../src/content/own-styles";
+import { STYLE_TAG_ID } from "../src/utils/defaults";
+
+describe("Site theme watcher", () => {
+  let dom: JSDOM;
+  let doc: Document;
+  let watcher: { stop(): void };
+  const onChange = vi.fn();
+
+  /** Let the observer see the mutations, then let the theme settle */
+  const settle = async () => {
+    await Promise.resolve();
+    vi.advanceTimersByTime(THEME_SETTLE_MS);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    onChange.mockReset();
+    dom = new JSDOM(
+      '<!doctype html><html><head><meta name="color-scheme" content="light"></head><body class="page"><main></main></body></html>',
+      { url: "https://app.example.com/" }
+    );
+    doc = dom.window.document;
+    globalThis.document = doc;
+    globalThis.getComputedStyle = dom.window.getComputedStyle.bind(dom.window);
+    globalThis.MutationObserver = dom.window.MutationObserver;
+    // @ts-expect-error - dark detection reads the content script's window
+    globalThis.window = dom.window;
+    watcher = watchSiteTheme(onChange);
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    vi.useRealTimers();
+  });
+
+  it("should report a dark class toggled on <html>", async () => {
+    doc.documentElement.classList.add("dark");
+    await settle();
+    expect(onChange).toHaveBeenCalledOnce();
+    expect(hasExplicitDarkThemeMarkers()).toBe(true);
+
+    doc.documentElement.classList.remove("dark");
+    await settle();
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report data-theme on <body> and color-scheme meta changes", async () => {
+    doc.body.setAttribute("data-theme", "night");
+    await settle();
+    doc.querySelector('meta[name="color-scheme"]')!.setAttribute("content", "dark");
+    await settle();
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report a body background change", async () => {
+    doc.body.style.backgroundColor = "rgb(18, 18, 18)";
+    await settle();
+    expect(onChange).toHaveBeenCalledOnce();
+  });
+
+  it("should collapse a multi-step toggle into one change", async () => {
+    doc.documentElement.setAttribute("data-theme", "dark");
+    await Promise.resolve();
+    vi.advanceTimersByTime(THEME_SETTLE_MS / 2);
+    doc.body.classList.add("theme-dark");
+    await settle();
+    expect(onChange).toHaveBeenCalledOnce();
+  });
+
+  it("should ignore mutations that leave the signature unchanged", async () => {
+    const before = siteThemeSignature();
+    doc.documentElement.setAttribute("data-udr-mode", "dom-walker");
+    doc.body.className = "page";
+    doc.body.querySelector("main")!.className = "dark";
+    await settle();
+    expect(siteThemeSignature()).toBe(before);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should follow a <body> that is replaced after it started", async () => {
+    const body = doc.createElement("body");
+    doc.documentElement.replaceChild(body, doc.body);
+    await settle();
+    onChange.mockReset();
+
+    body.classList.add("dark");
+    await settle();
+    expect(onChange).toHaveBeenCalledOnce();
+  });
+
+  describe("under our own theme", () => {
+    /** A DOM Walker-style theme: our sheet plus an inline background on <body> */
+    const applyTheme = () => {
+      const tag = doc.createElement("style");
+      tag.id = STYLE_TAG_ID;
+      tag.textContent = "html { background-color: #111 !important; }";
+      doc.documentElement.appendChild(tag);
+      doc.body.style.setProperty("background-color", "rgb(26, 26, 26)");
+    };
+    const siteVerdict = () => withoutOwnStyles(() => darkThemeVerdict({ sampleDivs: false }), { inlineBackgrounds: true });
+
+    beforeEach(() => {
+      const site = doc.createElement("style");
+      site.id = "site";
+      site.textContent = "body { background-color: #fafafa; }";
+      doc.head.appendChild(site);
+      applyTheme();
+      watcher.stop();
+      watcher = watchSiteTheme(onChange, () => withoutOwnStyles(siteThemeSignature, { inlineBackgrounds: true }));
+    });
+
+    it("should measure the site's own background, not ours", () => {
+      expect(getComputedStyle(doc.body).backgroundColor).toBe("rgb(26, 26, 26)");
+      expect(siteVerdict()).toMatchObject({ dark: false, reason: null });
+      // Our styles are back afterwards
+      expect(getComputedStyle(doc.body).backgroundColor).toBe("rgb(26, 26, 26)");
+      expect(doc.getElementById(STYLE_TAG_ID)).toHaveProperty("sheet.disabled", false);
+    });
+
+    it("should detect a site that turns dark only by changing its background", async () => {
+      doc.getElementById("site")!.textContent = "body { background-color: #121212; }";
+      await settle();
+      expect(onChange).toHaveBeenCalledOnce();
+      expect(siteVerdict()).toMatchObject({ dark: true, reason: "luminance" });
+    });
+
+    it("should not report our own restyling or its own reads", async () => {
+      doc.body.style.setProperty("background-color", "rgb(40, 40, 40)");
+      siteVerdict();
+      await settle();
+      await settle();
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+});
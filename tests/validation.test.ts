@@ -0,0 +1,295 @@
+// tests/validation.test.ts
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockBrowser } from "./mocks/storage";
+import {
+  normalizeProfile,
+  normalizeSettings,
+  normalizeSiteOverride,
+  validateSettings,
+  validateSettingsPatch,
+  SettingsValidationError
+} from "../src/utils/validation";
+import { DEFAULTS, SCHEMA_VERSION } from "../src/utils/defaults";
+
+const paths = (issues: { path: string }[]) => issues.map((i) => i.path);
+
+describe("Settings validation", () => {
+  describe("normalizeSettings", () => {
+    it("should accept DEFAULTS without issues", () => {
+      const { settings, issues } = normalizeSettings(DEFAULTS);
+      expect(issues).toEqual([]);
+      expect(settings).toEqual(DEFAULTS);
+    });
+
+    it("should fill missing fields from DEFAULTS silently", () => {
+      const { settings, issues } = normalizeSettings({ brightness: 70 });
+      expect(issues).toEqual([]);
+      expect(settings.brightness).toBe(70);
+      expect(settings.contrast).toBe(DEFAULTS.contrast);
+      expect(settings.perSite).toEqual({});
+    });
+
+    it("should clamp out-of-range numbers and report them", () => {
+      const { settings, issues } = normalizeSettings({ brightness: 150, contrast: 10 });
+      expect(settings.brightness).toBe(120);
+      expect(settings.contrast).toBe(50);
+      expect(paths(issues)).toEqual(["settings.brightness", "settings.contrast"]);
+      expect(issues[0]).toMatchObject({ message: "must be between 0 and 120", value: 150 });
+    });
+
+    it("should keep brightness above 100 that the popup slider allows", () => {
+      const { settings, issues } = normalizeSettings({ brightness: 110 });
+      expect(issues).toEqual([]);
+      expect(settings.brightness).toBe(110);
+    });
+
+    it("should tag data from a newer schema with this one once its unknown fields are dropped", () => {
+      const { settings, issues } = normalizeSettings({ schemaVersion: SCHEMA_VERSION + 1, brightness: 70, futureField: true });
+      expect(issues).toEqual([]);
+      expect(settings.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(settings).not.toHaveProperty("futureField");
+      expect(normalizeSettings({ schemaVersion: 2 }).settings.schemaVersion).toBe(2);
+    });
+
+    it("should fall back to defaults for wrong types", () => {
+      const { settings, issues } = normalizeSettings({ sepia: "10", enabled: "yes", grayscale: NaN });
+      expect(settings.sepia).toBe(DEFAULTS.sepia);
+      expect(settings.enabled).toBe(DEFAULTS.enabled);
+      expect(settings.grayscale).toBe(DEFAULTS.grayscale);
+      expect(paths(issues)).toEqual(["settings.enabled", "settings.sepia", "settings.grayscale"]);
+    });
+
+    it("should reject unknown modes", () => {
+      const { settings, issues } = normalizeSettings({ mode: "architect" });
+      expect(settings.mode).toBe(DEFAULTS.mode);
+      expect(paths(issues)).toEqual(["settings.mode"]);
+    });
+
+    it("should validate schedule times as HH:MM", () => {
+      const { settings, issues } = normalizeSettings({
+        schedule: {
+          enabled: true,
+          windows: [
+            { days: [1], start: "25:00", end: "07:00" },
+            { days: [2], start: "21:00", end: "7:00" },
+            { days: [3], start: "21:00", end: "07:00" }
+          ]
+        }
+      });
+      expect(settings.schedule).toEqual({ ...DEFAULTS.schedule, enabled: true, windows: [{ days: [3], start: "21:00", end: "07:00" }] });
+      expect(paths(issues)).toEqual(["settings.schedule.windows.0.start", "settings.schedule.windows.1.end"]);
+    });
+
+    it("should drop invalid weekdays and sort and dedupe the rest", () => {
+      const { settings, issues } = normalizeSettings({
+        schedule: { windows: [{ days: [6, 0, 7, 6, "mon"], start: "00:00", end: "00:00" }] }
+      });
+      expect(settings.schedule.windows).toEqual([{ days: [0, 6], start: "00:00", end: "00:00" }]);
+      expect(paths(issues)).toEqual(["settings.schedule.windows.0.days", "settings.schedule.windows.0.days"]);
+    });
+
+    it("should validate the schedule kind and clamp solar coordinates and offsets", () => {
+      const { settings, issues } = normalizeSettings({
+        schedule: { kind: "lunar", solar: { latitude: 95, longitude: "east", city: "Tromsø", sunsetOffset: -300 } }
+      });
+      expect(settings.schedule.kind).toBe("fixed");
+      expect(settings.schedule.solar).toEqual({
+        ...DEFAULTS.schedule.solar,
+        latitude: 90,
+        city: "Tromsø",
+        sunsetOffset: -180
+      });
+      expect(paths(issues)).toEqual([
+        "settings.schedule.kind",
+        "settings.schedule.solar.latitude",
+        "settings.schedule.solar.longitude",
+        "settings.schedule.solar.sunsetOffset"
+      ]);
+    });
+
+    it("should fill in and clamp the schedule ramp", () => {
+      expect(normalizeSettings({ schedule: { enabled: true } }).settings.schedule.ramp).toEqual(DEFAULTS.schedule.ramp);
+      const { settings, issues } = normalizeSettings({ schedule: { ramp: { enabled: "yes", minutes: 500 } } });
+      expect(settings.schedule.ramp).toEqual({ enabled: false, minutes: 120 });
+      expect(paths(issues)).toEqual(["settings.schedule.ramp.enabled", "settings.schedule.ramp.minutes"]);
+    });
+
+    it("should drop non-string regex entries", () => {
+      const { settings, issues } = normalizeSettings({ excludeRegex: ["a", 3, "b"] });
+      expect(settings.excludeRegex).toEqual(["a", "b"]);
+      expect(paths(issues)).toEqual(["settings.excludeRegex.1"]);
+    });
+
+    it("should keep valid site rule keys and drop unparseable ones", () => {
+      const { settings, issues } = normalizeSettings({
+        perSite: { "*.example.com": {}, "https://a.com/docs/*": {}, "not a rule": {} }
+      });
+      expect(Object.keys(settings.perSite)).toEqual(["*.example.com", "https://a.com/docs/*"]);
+      expect(paths(issues)).toEqual(["settings.perSite.not a rule"]);
+    });
+
+    it("should store site rules under canonical keys, merging other spellings of a site", () => {
+      const { settings, issues } = normalizeSettings({
+        perSite: {
+          "https://example.com": { enabled: true, override: { brightness: 70 }, excludeSelectors: ["#ad"] },
+          "https://WWW.Example.com/": { enabled: false, forceDarkMode: true, override: { brightness: 50, sepia: 20 }, excludeSelectors: ["#promo"] },
+          "*.Docs.org": { exclude: true }
+        }
+      });
+      expect(issues).toEqual([]);
+      expect(settings.perSite).toEqual({
+        "https://example.com": {
+          enabled: true,
+          forceDarkMode: true,
+          override: { brightness: 70, sepia: 20 },
+          excludeSelectors: ["#promo", "#ad"]
+        },
+        "*.docs.org": { exclude: true }
+      });
+    });
+
+    it("should report a non-object as a single root issue", () => {
+      const { settings, issues } = normalizeSettings(null);
+      expect(settings).toEqual(DEFAULTS);
+      expect(issues).toHaveLength(1);
+    });
+
+    it("should not share nested objects with DEFAULTS", () => {
+      const { settings } = normalizeSettings({});
+      settings.perSite["https://a.com"] = {};
+      expect(DEFAULTS.perSite).toEqual({});
+    });
+  });
+
+  describe("normalizeSiteOverride", () => {
+    it("should keep valid flags and override values", () => {
+      const input = { enabled: true, forceDarkMode: false, override: { brightness: 80, mode: "dom-walker" } };
+      const { override, issues } = normalizeSiteOverride(input);
+      expect(issues).toEqual([]);
+      expect(override).toEqual(input);
+    });
+
+    it("should clamp override values and reject global-only keys", () => {
+      const { override, issues } = normalizeSiteOverride(
+        { override: { contrast: 500, perSite: {} } },
+        "settings.perSite.https://a.com"
+      );
+      expect(override.override).toEqual({ contrast: 200 });
+      expect(paths(issues)).toEqual([
+        "settings.perSite.https://a.com.override.perSite",
+        "settings.perSite.https://a.com.override.contrast"
+      ]);
+    });
+
+    it("should keep element selectors and drop ones that aren't strings", () => {
+      const { override, issues } = normalizeSiteOverride({ excludeSelectors: [" #ad ", 3, "", "#ad", "main > aside"] });
+      expect(override.excludeSelectors).toEqual(["#ad", "main > aside"]);
+      expect(paths(issues)).toEqual(["siteOverride.excludeSelectors.1", "siteOverride.excludeSelectors.2"]);
+      expect(paths(normalizeSiteOverride({ excludeSelectors: "#ad" }).issues)).toEqual(["siteOverride.excludeSelectors"]);
+    });
+
+    it("should reject non-boolean flags", () => {
+      const { override, issues } = normalizeSiteOverride({ exclude: 1 });
+      expect(override.exclude).toBe(false);
+      expect(paths(issues)).toEqual(["siteOverride.exclude"]);
+    });
+  });
+
+  describe("profiles", () => {
+    it("should fill missing profile values from DEFAULTS and clamp the rest", () => {
+      const { settings, issues } = normalizeSettings({ profiles: { Docs: { brightness: 300, mode: "dom-walker" } } });
+      expect(settings.profiles.Docs).toEqual({
+        mode: "dom-walker",
+        amoled: DEFAULTS.amoled,
+        brightness: 120,
+        contrast: DEFAULTS.contrast,
+        sepia: DEFAULTS.sepia,
+        grayscale: DEFAULTS.grayscale,
+        blueShift: DEFAULTS.blueShift
+      });
+      expect(paths(issues)).toEqual(["settings.profiles.Docs.brightness"]);
+    });
+
+    it("should drop site references to unknown profiles", () => {
+      const { settings, issues } = normalizeSettings({
+        profiles: { Reading: {} },
+        perSite: { "https://a.com": { profile: "Reading" }, "https://b.com": { profile: "Gone" } }
+      });
+      expect(settings.perSite["https://a.com"].profile).toBe("Reading");
+      expect(settings.perSite["https://b.com"]).toEqual({});
+      expect(paths(issues)).toEqual(["settings.perSite.https://b.com.profile"]);
+    });
+  });
+
+  describe("validateSettings", () => {
+    it("should throw a structured error listing every issue", () => {
+      try {
+        validateSettings({ ...DEFAULTS, brightness: -5, mode: "nope" });
+        expect.unreachable();
+      } catch (err) {
+        expect(err).toBeInstanceOf(SettingsValidationError);
+        expect(paths((err as SettingsValidationError).issues)).toEqual(["settings.brightness", "settings.mode"]);
+      }
+    });
+  });
+
+  describe("validateSettingsPatch", () => {
+    it("should only return the keys present in the patch", () => {
+      expect(validateSettingsPatch({ brightness: 60 })).toEqual({ brightness: 60 });
+    });
+
+    it("should reject non-object patches", () => {
+      expect(() => validateSettingsPatch("brightness=60")).toThrow(SettingsValidationError);
+    });
+  });
+
+  describe("storage integration", () => {
+    const mockBrowser = createMockBrowser();
+    const store = mockBrowser.storage.sync.data;
+
+    beforeEach(() => {
+      mockBrowser.storage.sync.reset();
+      mockBrowser.storage.local.reset();
+      // @ts-expect-error - mocking browser global
+      globalThis.browser = mockBrowser;
+    });
+
+    it("should refuse to save invalid settings", async () => {
+      const { setSettings } = await import("../src/utils/storage");
+      await expect(setSettings({ ...DEFAULTS, contrast: 999 })).rejects.toBeInstanceOf(SettingsValidationError);
+      expect(mockBrowser.storage.sync.set).not.toHaveBeenCalled();
+    });
+
+    it("should repair corrupt stored settings on read", async () => {
+      const { getSettings } = await import("../src/utils/storage");
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      store.settings = { ...DEFAULTS, brightness: 400 };
+
+      const s = await getSettings();
+      expect(s.brightness).toBe(120);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("should validate patches before merging", async () => {
+      const { updateSettings, getSettings } = await import("../src/utils/storage");
+      await expect(updateSettings({ schedule: { ...DEFAULTS.schedule, enabled: true, windows: [{ days: [1], start: "nope", end: "07:00" }] } })).rejects.toBeInstanceOf(
+        SettingsValidationError
+      );
+      await updateSettings({ perSite: { "https://a.com": { exclude: true } } });
+      expect((await getSettings()).perSite).toEqual({ "https://a.com": { exclude: true } });
+    });
+
+    it("should check profile references in patches against the stored profiles", async () => {
+      const { setSettings, updateSettings, getSettings } = await import("../src/utils/storage");
+      const { profile: reading } = normalizeProfile({ sepia: 30 });
+      await setSettings({ ...structuredClone(DEFAULTS), profiles: { Reading: reading } });
+
+      await updateSettings({ perSite: { "https://a.com": { profile: "Reading" } } });
+      expect((await getSettings()).perSite["https://a.com"]).toEqual({ profile: "Reading" });
+
+      await expect(updateSettings({ perSite: { "https://b.com": { profile: "Missing" } } })).rejects.toBeInstanceOf(SettingsValidationError);
+      expect((await getSettings()).perSite["https://b.com"]).toBeUndefined();
+    });
+  });
+});